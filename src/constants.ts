@@ -12,6 +12,7 @@ export const ANSI = {
   INVERT_COLORS: '\x1b[7m', // Invert background/foreground colors
   RESET_COLORS: '\x1b[0m', // Reset colors
   DIM: '\x1b[2m', // Dim mode (faint)
+  UNDERLINE: '\x1b[4m', // Underline
   ENTER_ALTERNATE_SCREEN: '\x1b[?1049h', // Enter alternate screen
   EXIT_ALTERNATE_SCREEN: '\x1b[?1049l', // Exit alternate screen
   
@@ -22,37 +23,58 @@ export const ANSI = {
 };
 
 /**
- * Key definitions for special keypresses (using Ctrl+ keys for reliable detection).
+ * Key descriptors for special keypresses, as produced by `describeKey()` in keymap.ts.
+ * Printable characters are described by the character itself.
  */
 export const KEYS = {
   // Control Sequences
-  CTRL_C: '\x03', // Copy/Quit (contextual)
-  CTRL_Q: '\x11', // Quit
-  CTRL_S: '\x13', // Save
-  CTRL_W: '\x17', // Find (Where is)
-  CTRL_R: '\x12', // Replace
-  CTRL_G: '\x07', // Go to next
-  CTRL_L: '\x0c', // Go to Line (L)
-  CTRL_Z: '\x1a', // Undo
-  CTRL_Y: '\x19', // Redo
-  CTRL_K: '\x0b', // Cut/Kill line
-  CTRL_U: '\x15', // Paste/Un-kill
-  CTRL_X: '\x18', // Cut Selection
-  CTRL_V: '\x16', // Paste Selection
-  CTRL_M: '\x0d', // Match Bracket (Ctrl+M is often Enter, but we distinguish if possible or rely on context)
+  CTRL_C: 'ctrl+c', // Copy/Quit (contextual)
+  CTRL_Q: 'ctrl+q', // Quit
+  CTRL_S: 'ctrl+s', // Save and Quit
+  CTRL_O: 'ctrl+o', // Save (Write Out), keep editing
+  CTRL_W: 'ctrl+w', // Find (Where is)
+  CTRL_R: 'ctrl+r', // Replace
+  CTRL_G: 'ctrl+g', // Go to next
+  CTRL_L: 'ctrl+l', // Go to Line (L)
+  CTRL_Z: 'ctrl+z', // Undo
+  CTRL_Y: 'ctrl+y', // Redo
+  CTRL_K: 'ctrl+k', // Cut/Kill line
+  CTRL_U: 'ctrl+u', // Paste/Un-kill
+  CTRL_X: 'ctrl+x', // Cut Selection
+  CTRL_V: 'ctrl+v', // Paste Selection
+  CTRL_D: 'ctrl+d', // Duplicate line/selection
+  CTRL_E: 'ctrl+e', // Open file in a new buffer (Edit)
+  CTRL_N: 'ctrl+n', // Next buffer
+  CTRL_P: 'ctrl+p', // Previous buffer
+  CTRL_B: 'ctrl+b', // List buffers
+  ALT_W: 'alt+w', // Close buffer
+  ALT_H: 'alt+h', // Split pane (stacked, horizontal divider)
+  ALT_V: 'alt+v', // Split pane (side by side, vertical divider)
+  ALT_X: 'alt+x', // Close pane
+  ALT_O: 'alt+o', // Focus next (other) pane
+  ALT_P: 'alt+p', // Focus previous pane
+  ALT_L: 'alt+l', // Toggle line endings (LF/CRLF)
+  ALT_E: 'alt+e', // Save with encoding
+  ALT_R: 'alt+r', // Re-open with encoding
+  ALT_B: 'alt+b', // Toggle the hex (binary) view
+  ALT_J: 'alt+j', // Previous undo branch
+  ALT_K: 'alt+k', // Next undo branch
+  ALT_T: 'alt+t', // Go back in time (undo history)
+  ALT_U: 'alt+u', // Undo tree overlay
+  CTRL_M: 'ctrl+m', // Match Bracket (Ctrl+M is often Enter, but we distinguish if possible or rely on context)
 
   // Selection Keys (Mapped to Ctrl+Arrow for reliable detection)
-  CTRL_ARROW_UP: 'C-up',
-  CTRL_ARROW_DOWN: 'C-down',
-  CTRL_ARROW_RIGHT: 'C-right',
-  CTRL_ARROW_LEFT: 'C-left',
+  CTRL_ARROW_UP: 'ctrl+up',
+  CTRL_ARROW_DOWN: 'ctrl+down',
+  CTRL_ARROW_RIGHT: 'ctrl+right',
+  CTRL_ARROW_LEFT: 'ctrl+left',
   
   // Standard Keys
-  ENTER: '\r', // Carriage Return
-  BACKSPACE: '\x7f', // DEL (usually Backspace)
-  ESCAPE: '\x1b',
+  ENTER: 'enter', // Carriage Return / Line Feed
+  BACKSPACE: 'backspace', // DEL (usually Backspace)
+  ESCAPE: 'escape',
 
-  // Escape sequences for navigation keys (used by keypress.name)
+  // Navigation keys (named by keypress.name)
   ARROW_UP: 'up',
   ARROW_DOWN: 'down',
   ARROW_RIGHT: 'right',
@@ -62,9 +84,14 @@ export const KEYS = {
   END: 'end', 
   PAGE_UP: 'pageup',
   PAGE_DOWN: 'pagedown',
-  TAB: '\t',
-  SHIFT_TAB: 'SHIFT_TAB', // Internal representation
-  ALT_UP: 'ALT_UP',       // Internal representation
-  ALT_DOWN: 'ALT_DOWN',   // Internal representation
-  CTRL_D: '\x04',
-};
\ No newline at end of file
+  TAB: 'tab',
+  SHIFT_TAB: 'shift+tab',
+  ALT_UP: 'alt+up',
+  ALT_DOWN: 'alt+down',
+  ALT_LEFT: 'alt+left',
+  ALT_RIGHT: 'alt+right',
+
+  // Mouse wheel (SGR mouse mode)
+  SCROLL_UP: 'scrollup',
+  SCROLL_DOWN: 'scrolldown',
+};
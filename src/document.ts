@@ -0,0 +1,439 @@
+// src/document.ts
+
+/**
+ * Text model of a buffer: a two-level rope of lines.
+ *
+ * Lines live in immutable chunks of at most CHUNK_SIZE lines. An edit replaces
+ * only the chunk(s) it touches, lookups binary-search cached chunk prefix sums,
+ * and a snapshot copies just the list of chunks, which can be shared because
+ * chunks are never modified in place. Every insert and delete is reported to
+ * `onEdit` (the undo history records them).
+ */
+
+import type { LineEnding } from './types.js';
+
+/**
+ * A position in the document: `x` is the column (UTF-16 code units), `y` the line (both 0-based).
+ */
+export type TextPosition = { x: number, y: number };
+
+interface Chunk {
+    readonly lines: readonly string[];
+    readonly length: number; // Characters in the chunk, excluding line breaks
+}
+
+/**
+ * A change to the document: `text` was inserted at `at`, or deleted starting at `at`.
+ * Line breaks in `text` are always '\n'.
+ */
+export type TextEdit = { type: 'insert' | 'delete', at: TextPosition, text: string };
+
+/**
+ * Immutable copy of a document's content, restorable with `TextDocument.restore`.
+ */
+export interface DocumentSnapshot {
+    readonly chunks: readonly Chunk[];
+}
+
+const CHUNK_SIZE = 512;
+
+/**
+ * A number per line (e.g. the screen rows a line wraps to), summed over the
+ * document by `measureBefore` / `findByMeasure`. Values are cached per chunk;
+ * chunks are immutable, so after an edit only the replaced chunks are measured
+ * again. One measure can serve several documents.
+ */
+export class LineMeasure {
+    private readonly measure: (line: string) => number;
+    private readonly cache = new WeakMap<Chunk, { values: number[], total: number }>();
+
+    constructor(measure: (line: string) => number) {
+        this.measure = measure;
+    }
+
+    public ofChunk(chunk: Chunk): { values: number[], total: number } {
+        let result = this.cache.get(chunk);
+        if (!result) {
+            const values = chunk.lines.map(this.measure);
+            result = { values, total: values.reduce((sum, value) => sum + value, 0) };
+            this.cache.set(chunk, result);
+        }
+        return result;
+    }
+}
+
+export const LINE_BREAKS: Readonly<Record<LineEnding, string>> = { LF: '\n', CRLF: '\r\n' };
+
+/**
+ * Detects the line break style of a text. Mixed files get the style used by
+ * most of their lines (LF on a tie, or when there are no line breaks at all).
+ */
+export function detectLineEnding(text: string): LineEnding {
+    const crlf = text.match(/\r\n/g)?.length ?? 0;
+    const lf = (text.match(/\n/g)?.length ?? 0) - crlf;
+    return crlf > lf ? 'CRLF' : 'LF';
+}
+
+function createChunk(lines: readonly string[]): Chunk {
+    let length = 0;
+    for (const line of lines) length += line.length;
+    return { lines, length };
+}
+
+function buildChunks(lines: readonly string[]): Chunk[] {
+    const chunks: Chunk[] = [];
+    for (let i = 0; i < lines.length; i += CHUNK_SIZE) {
+        chunks.push(createChunk(lines.slice(i, i + CHUNK_SIZE)));
+    }
+    return chunks;
+}
+
+export class TextDocument {
+    private chunks: Chunk[];
+    // Index of the first line / first offset of each chunk; rebuilt lazily after edits
+    private lineStarts: number[] | null = null;
+    private offsetStarts: number[] | null = null;
+    private totalLines: number = 0;
+    private totalLength: number = 0;
+    private _version: number = 0;
+    // Called after every insert and delete (not for `restore`)
+    public onEdit: ((edit: TextEdit) => void) | null = null;
+
+    /**
+     * Creates a document from text; both '\n' and '\r\n' count as line breaks.
+     */
+    constructor(text: string = '') {
+        this.chunks = buildChunks(text.split(/\r?\n/));
+    }
+
+    public static fromLines(lines: readonly string[]): TextDocument {
+        const document = new TextDocument();
+        document.chunks = buildChunks(lines.length > 0 ? lines : ['']);
+        return document;
+    }
+
+    /**
+     * Incremented on every change; cheap to compare for "has anything changed".
+     */
+    public get version(): number {
+        return this._version;
+    }
+
+    public get lineCount(): number {
+        this.ensureIndex();
+        return this.totalLines;
+    }
+
+    /**
+     * Total length in characters, counting each line break as one.
+     */
+    public get length(): number {
+        this.ensureIndex();
+        return this.totalLength + this.totalLines - 1;
+    }
+
+    /**
+     * Returns line `y`, or '' if it doesn't exist.
+     */
+    public getLine(y: number): string {
+        if (y < 0 || y >= this.lineCount) return '';
+        const index = this.findChunk(y);
+        return this.chunks[index].lines[y - this.lineStarts![index]];
+    }
+
+    public getLineLength(y: number): number {
+        return this.getLine(y).length;
+    }
+
+    /**
+     * Returns lines [start, end) as an array.
+     */
+    public getLines(start: number = 0, end: number = this.lineCount): string[] {
+        const result: string[] = [];
+        start = Math.max(0, start);
+        end = Math.min(end, this.lineCount);
+        if (start >= end) return result;
+
+        let index = this.findChunk(start);
+        let y = start;
+        while (y < end) {
+            const chunkStart = this.lineStarts![index];
+            const lines = this.chunks[index].lines;
+            for (let i = y - chunkStart; i < lines.length && y < end; i++, y++) {
+                result.push(lines[i]);
+            }
+            index++;
+        }
+        return result;
+    }
+
+    /**
+     * Returns the whole content, lines joined with `lineBreak`.
+     */
+    public getText(lineBreak: string = '\n'): string {
+        return this.chunks.map(chunk => chunk.lines.join(lineBreak)).join(lineBreak);
+    }
+
+    /**
+     * Returns the text between two positions (or offsets).
+     */
+    public getTextRange(start: TextPosition | number, end: TextPosition | number): string {
+        const from = this.toPosition(start);
+        const to = this.toPosition(end);
+        if (from.y === to.y) return this.getLine(from.y).slice(from.x, to.x);
+
+        const lines = this.getLines(from.y, to.y + 1);
+        lines[0] = lines[0].slice(from.x);
+        lines[lines.length - 1] = lines[lines.length - 1].slice(0, to.x);
+        return lines.join('\n');
+    }
+
+    /**
+     * Converts a position into a character offset (line breaks count as one).
+     */
+    public offsetAt(position: TextPosition): number {
+        const { x, y } = this.clampPosition(position);
+        const index = this.findChunk(y);
+        let offset = this.offsetStarts![index];
+        const lines = this.chunks[index].lines;
+        for (let i = 0; i < y - this.lineStarts![index]; i++) {
+            offset += lines[i].length + 1;
+        }
+        return offset + x;
+    }
+
+    /**
+     * Converts a character offset into a position.
+     */
+    public positionAt(offset: number): TextPosition {
+        this.ensureIndex();
+        offset = Math.max(0, Math.min(offset, this.length));
+
+        // Last chunk starting at or before the offset
+        const starts = this.offsetStarts!;
+        let low = 0, high = starts.length - 1;
+        while (low < high) {
+            const mid = (low + high + 1) >> 1;
+            if (starts[mid] <= offset) low = mid; else high = mid - 1;
+        }
+
+        let remaining = offset - starts[low];
+        const lines = this.chunks[low].lines;
+        for (let i = 0; i < lines.length; i++) {
+            if (remaining <= lines[i].length) {
+                return { x: remaining, y: this.lineStarts![low] + i };
+            }
+            remaining -= lines[i].length + 1;
+        }
+        // Unreachable for a clamped offset; fall back to the end of the chunk
+        return { x: lines[lines.length - 1].length, y: this.lineStarts![low] + lines.length - 1 };
+    }
+
+    /**
+     * Inserts text (which may contain '\n') and returns the position after it.
+     */
+    public insert(at: TextPosition | number, text: string): TextPosition {
+        const { x, y } = this.toPosition(at);
+        const line = this.getLine(y);
+        const parts = text.split(/\r?\n/);
+        const last = parts.length - 1;
+        const end = { x: last === 0 ? x + text.length : parts[last].length, y: y + last };
+        const inserted = parts.join('\n');
+
+        parts[0] = line.slice(0, x) + parts[0];
+        parts[last] = parts[last] + line.slice(x);
+        this.spliceLines(y, 1, parts);
+        this.onEdit?.({ type: 'insert', at: { x, y }, text: inserted });
+        return end;
+    }
+
+    /**
+     * Deletes the text between two positions (or offsets) and returns it.
+     */
+    public delete(start: TextPosition | number, end: TextPosition | number): string {
+        const from = this.toPosition(start);
+        const to = this.toPosition(end);
+        const removed = this.getTextRange(from, to);
+        if (removed === '') return removed;
+
+        const joined = this.getLine(from.y).slice(0, from.x) + this.getLine(to.y).slice(to.x);
+        this.spliceLines(from.y, to.y - from.y + 1, [joined]);
+        this.onEdit?.({ type: 'delete', at: from, text: removed });
+        return removed;
+    }
+
+    /**
+     * Replaces the text between two positions and returns the position after the new text.
+     */
+    public replace(start: TextPosition | number, end: TextPosition | number, text: string): TextPosition {
+        const from = this.toPosition(start);
+        this.delete(from, end);
+        return this.insert(from, text);
+    }
+
+    /**
+     * Replaces the content of line `y`.
+     */
+    public setLine(y: number, text: string): void {
+        if (y < 0 || y >= this.lineCount) return;
+        this.replace({ x: 0, y }, { x: this.getLineLength(y), y }, text);
+    }
+
+    /**
+     * Inserts whole lines before line `y` (`y === lineCount` appends).
+     */
+    public insertLines(y: number, lines: readonly string[]): void {
+        if (lines.length === 0) return;
+        const text = lines.join('\n');
+        if (y < this.lineCount) {
+            this.insert({ x: 0, y: Math.max(0, y) }, text + '\n');
+        } else {
+            const last = this.lineCount - 1;
+            this.insert({ x: this.getLineLength(last), y: last }, '\n' + text);
+        }
+    }
+
+    /**
+     * Removes `count` whole lines starting at `y` and returns them.
+     * The document always keeps at least one (empty) line.
+     */
+    public deleteLines(y: number, count: number): string[] {
+        const removed = this.getLines(y, y + count);
+        if (removed.length === 0) return removed;
+        const end = y + removed.length;
+        if (end < this.lineCount) {
+            this.delete({ x: 0, y }, { x: 0, y: end });
+        } else if (y > 0) {
+            // The last lines: remove the line break before them instead
+            this.delete({ x: this.getLineLength(y - 1), y: y - 1 }, { x: this.getLineLength(end - 1), y: end - 1 });
+        } else {
+            this.delete({ x: 0, y: 0 }, { x: this.getLineLength(end - 1), y: end - 1 });
+        }
+        return removed;
+    }
+
+    /**
+     * Sum of `measure` over lines [0, y).
+     */
+    public measureBefore(y: number, measure: LineMeasure): number {
+        y = Math.max(0, Math.min(y, this.lineCount));
+        const index = y < this.lineCount ? this.findChunk(y) : this.chunks.length;
+        let sum = 0;
+        for (let i = 0; i < index; i++) sum += measure.ofChunk(this.chunks[i]).total;
+        if (index < this.chunks.length) {
+            const { values } = measure.ofChunk(this.chunks[index]);
+            for (let i = 0; i < y - this.lineStarts![index]; i++) sum += values[i];
+        }
+        return sum;
+    }
+
+    /**
+     * Finds the line covering `target` when the values of `measure` are laid end
+     * to end: returns it with the sum before it, or null if `target` is past the end.
+     */
+    public findByMeasure(target: number, measure: LineMeasure): { y: number, before: number } | null {
+        this.ensureIndex();
+        let sum = 0;
+        for (let index = 0; index < this.chunks.length; index++) {
+            const { values, total } = measure.ofChunk(this.chunks[index]);
+            if (sum + total <= target) {
+                sum += total;
+                continue;
+            }
+            for (let i = 0; i < values.length; i++) {
+                if (sum + values[i] > target) return { y: this.lineStarts![index] + i, before: sum };
+                sum += values[i];
+            }
+        }
+        return null;
+    }
+
+    public snapshot(): DocumentSnapshot {
+        return { chunks: this.chunks.slice() };
+    }
+
+    public restore(snapshot: DocumentSnapshot): void {
+        this.chunks = snapshot.chunks.slice();
+        this.invalidate();
+    }
+
+    /**
+     * Core edit: replaces `deleteCount` lines at `start` with `insert`,
+     * rebuilding only the chunks that contain the affected lines.
+     */
+    private spliceLines(start: number, deleteCount: number, insert: readonly string[]): void {
+        const lineCount = this.lineCount;
+        start = Math.max(0, Math.min(start, lineCount));
+        deleteCount = Math.max(0, Math.min(deleteCount, lineCount - start));
+
+        // Chunks covering [start, start + deleteCount); appending uses the last chunk
+        const first = this.findChunk(Math.min(start, lineCount - 1));
+        let last = deleteCount > 0 ? this.findChunk(start + deleteCount - 1) : first;
+        const firstStart = this.lineStarts![first];
+
+        let merged = [
+            ...this.chunks[first].lines.slice(0, start - firstStart),
+            ...insert,
+            ...this.chunks[last].lines.slice(start + deleteCount - this.lineStarts![last]),
+        ];
+        // Absorb the next chunk when the result gets small, so chunks don't fragment
+        if (merged.length < CHUNK_SIZE / 4 && last + 1 < this.chunks.length) {
+            last++;
+            merged = merged.concat(this.chunks[last].lines);
+        }
+
+        this.chunks.splice(first, last - first + 1, ...buildChunks(merged));
+        if (this.chunks.length === 0) {
+            this.chunks = buildChunks(['']);
+        }
+        this.invalidate();
+    }
+
+    private invalidate(): void {
+        this.lineStarts = null;
+        this.offsetStarts = null;
+        this._version++;
+    }
+
+    private ensureIndex(): void {
+        if (this.lineStarts) return;
+        const lineStarts: number[] = [];
+        const offsetStarts: number[] = [];
+        let lines = 0;
+        let offset = 0;
+        for (const chunk of this.chunks) {
+            lineStarts.push(lines);
+            offsetStarts.push(offset);
+            lines += chunk.lines.length;
+            offset += chunk.length + chunk.lines.length; // Each line plus its line break
+        }
+        this.lineStarts = lineStarts;
+        this.offsetStarts = offsetStarts;
+        this.totalLines = lines;
+        this.totalLength = offset - lines;
+    }
+
+    /**
+     * Index of the chunk containing line `y` (which must exist).
+     */
+    private findChunk(y: number): number {
+        this.ensureIndex();
+        const starts = this.lineStarts!;
+        let low = 0, high = starts.length - 1;
+        while (low < high) {
+            const mid = (low + high + 1) >> 1;
+            if (starts[mid] <= y) low = mid; else high = mid - 1;
+        }
+        return low;
+    }
+
+    private clampPosition(position: TextPosition): TextPosition {
+        const y = Math.max(0, Math.min(position.y, this.lineCount - 1));
+        const x = Math.max(0, Math.min(position.x, this.getLineLength(y)));
+        return { x, y };
+    }
+
+    private toPosition(at: TextPosition | number): TextPosition {
+        return typeof at === 'number' ? this.positionAt(at) : this.clampPosition(at);
+    }
+}
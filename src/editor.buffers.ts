@@ -0,0 +1,465 @@
+// src/editor.buffers.ts
+
+import { promises as fs } from 'fs';
+import { CliEditor } from './editor.js';
+import { HistoryManager } from './history.js';
+import { detectLineEnding, LINE_BREAKS, TextDocument } from './document.js';
+import { SwapManager } from './editor.swap.js';
+import { EditorResult, FileEncoding, FileResult, LineEnding } from './types.js';
+import { decodeAs, decodeText, DecodedText, isBinary } from './encoding.js';
+import { detectIndentation } from './indentation.js';
+import { EditorConfig, loadEditorConfig } from './editorconfig.js';
+import { LargeFileDocument } from './large_file.js';
+import { readUndoFile } from './undo_file.js';
+import type { SerializedHistory } from './history.js';
+import type { HexView } from './editor.hex.js';
+
+/**
+ * Methods for managing several open buffers (files) in one session.
+ * The active buffer lives in the editor's own fields (document, cursor, history, ...);
+ * inactive buffers are kept as `EditorBuffer` records and swapped in on switch.
+ */
+
+/**
+ * Per-file state of an open buffer.
+ */
+export interface EditorBuffer {
+    document: TextDocument;
+    lineEnding: LineEnding;
+    encoding: FileEncoding;
+    bom: boolean;
+    tabSize: number;
+    indentSize: number;
+    useTabs: boolean;
+    editorConfig: EditorConfig;
+    hexView: HexView | null;
+    filepath: string;
+    isDirty: boolean;
+    hasSaved: boolean;
+    cursorX: number;
+    cursorY: number;
+    selectionAnchor: { x: number, y: number } | null;
+    rowOffset: number;
+    history: HistoryManager;
+    syntaxCache: Map<number, Map<number, string>>;
+    swapManager: SwapManager;
+}
+
+/**
+ * Content of a file read for a new buffer.
+ */
+export interface LoadedContent {
+    content: string;
+    recovered: boolean; // Content came from the swap file
+    encoding: FileEncoding;
+    bom: boolean;
+    editorConfig: EditorConfig; // From the .editorconfig files above the file
+    largeFile?: LargeFileDocument; // Set instead of `content` for files above the threshold
+    binary?: Buffer; // Set instead of `content` for binary files (shown in the hex view)
+    undoHistory?: SerializedHistory; // From the file's undo file, if it matches `content`
+}
+
+/**
+ * Reads a file for a new buffer, preferring the swap file's content if one exists.
+ * The encoding is detected from the file itself; missing files open as empty UTF-8 buffers.
+ * The file's EditorConfig is resolved even if the file doesn't exist yet.
+ * Files of at least `largeFileThreshold` bytes aren't read: they are opened as a
+ * LargeFileDocument (see attachLargeFile), without swap file recovery.
+ * Binary files are returned as bytes for the hex view (decoded as Latin-1 if
+ * switched to text), also without recovery.
+ * With `useUndoFile`, the undo history saved for the file is returned too.
+ */
+export async function readBufferContent(
+    filepath: string,
+    useSwap: boolean = true,
+    largeFileThreshold: number = Infinity,
+    useUndoFile: boolean = false,
+): Promise<LoadedContent> {
+    let decoded: DecodedText = { text: '', encoding: 'utf-8', bom: false };
+    if (filepath) {
+        try {
+            if ((await fs.stat(filepath)).size >= largeFileThreshold) {
+                const largeFile = await LargeFileDocument.open(filepath);
+                if (largeFile) {
+                    const { encoding, bom } = largeFile;
+                    return { content: '', recovered: false, encoding, bom, editorConfig: await loadEditorConfig(filepath), largeFile };
+                }
+            }
+            const bytes = await fs.readFile(filepath);
+            if (isBinary(bytes)) {
+                const editorConfig = await loadEditorConfig(filepath);
+                return { content: '', recovered: false, encoding: 'latin1', bom: false, editorConfig, binary: bytes };
+            }
+            decoded = decodeText(bytes);
+        } catch (err) {
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            if ((err as any).code !== 'ENOENT') {
+                throw err;
+            }
+        }
+    }
+    const { encoding, bom } = decoded;
+    const editorConfig = filepath ? await loadEditorConfig(filepath) : {};
+    const recovered = !!filepath && useSwap && await SwapManager.check(filepath);
+    const content = recovered ? await SwapManager.read(filepath) : decoded.text;
+    const undoHistory = filepath && useUndoFile && !recovered ? await readUndoFile(filepath, content) : null;
+    return { content, recovered, encoding, bom, editorConfig, undoHistory: undoHistory ?? undefined };
+}
+
+/**
+ * Display name of a buffer in the status bar and buffer list.
+ */
+function getBufferName(this: CliEditor, buffer: EditorBuffer): string {
+    return buffer.filepath || 'untitled';
+}
+
+/**
+ * Copies the editor's live state into the active buffer's record.
+ */
+function stashActiveBuffer(this: CliEditor): void {
+    const buffer = this.buffers[this.activeBufferIndex];
+    buffer.document = this.document;
+    buffer.lineEnding = this.lineEnding;
+    buffer.encoding = this.encoding;
+    buffer.bom = this.bom;
+    buffer.tabSize = this.tabSize;
+    buffer.indentSize = this.indentSize;
+    buffer.useTabs = this.useTabs;
+    buffer.editorConfig = this.editorConfig;
+    buffer.hexView = this.hexView;
+    buffer.filepath = this.filepath;
+    buffer.isDirty = this.isDirty;
+    buffer.hasSaved = this.hasSaved;
+    buffer.cursorX = this.cursorX;
+    buffer.cursorY = this.cursorY;
+    buffer.selectionAnchor = this.selectionAnchor;
+    buffer.rowOffset = this.rowOffset;
+    buffer.history = this.history;
+    buffer.syntaxCache = this.syntaxCache;
+    buffer.swapManager = this.swapManager;
+}
+
+/**
+ * Loads a buffer record into the editor's live state.
+ */
+function loadBuffer(this: CliEditor, buffer: EditorBuffer): void {
+    this.document = buffer.document;
+    this.lineEnding = buffer.lineEnding;
+    this.encoding = buffer.encoding;
+    this.bom = buffer.bom;
+    this.tabSize = buffer.tabSize;
+    this.indentSize = buffer.indentSize;
+    this.useTabs = buffer.useTabs;
+    this.editorConfig = buffer.editorConfig;
+    this.hexView = buffer.hexView;
+    this.filepath = buffer.filepath;
+    this.isDirty = buffer.isDirty;
+    this.hasSaved = buffer.hasSaved;
+    this.cursorX = buffer.cursorX;
+    this.cursorY = buffer.cursorY;
+    this.selectionAnchor = buffer.selectionAnchor;
+    this.rowOffset = buffer.rowOffset;
+    this.history = buffer.history;
+    this.syntaxCache = buffer.syntaxCache;
+    this.swapManager = buffer.swapManager;
+}
+
+/**
+ * Chooses the indentation for new content: explicit `tabSize`/`useTabs` options
+ * win, then the file's EditorConfig, then the style detected in the content, then 4 spaces.
+ */
+function resolveIndentation(
+    this: CliEditor,
+    content: string,
+    editorConfig: EditorConfig = {},
+): { tabSize: number, indentSize: number, useTabs: boolean } {
+    const { tabSize, useTabs, detectIndentation: detect = true } = this.indentOptions;
+    const detected = detect ? detectIndentation(content) : null;
+    const tabWidth = tabSize ?? editorConfig.tabWidth ?? 4;
+    return {
+        tabSize: tabWidth,
+        indentSize: tabSize ?? editorConfig.indentSize ?? detected?.size ?? tabWidth,
+        useTabs: useTabs ?? editorConfig.useTabs ?? detected?.useTabs ?? false,
+    };
+}
+
+/**
+ * Applies the file's EditorConfig to the active buffer (used for the first
+ * buffer, which is created before its file's config is known).
+ */
+function applyEditorConfig(this: CliEditor, editorConfig: EditorConfig): void {
+    Object.assign(this, this.resolveIndentation(this.document.getText(), editorConfig));
+    if (editorConfig.endOfLine) this.lineEnding = editorConfig.endOfLine;
+    if (editorConfig.charset) {
+        this.encoding = editorConfig.charset.encoding;
+        this.bom = editorConfig.charset.bom;
+    }
+    this.editorConfig = editorConfig;
+}
+
+/**
+ * Adds a buffer without switching to it. Returns the new buffer record.
+ * If `recovered` is set, the buffer starts dirty (content came from a swap file).
+ * The line break style is detected from the content and restored on save, as is
+ * the file's `encoding` (see readBufferContent). The indentation style is
+ * detected too (see resolveIndentation). Settings from the file's `editorConfig`
+ * (line endings, charset, indentation) take precedence over what is detected.
+ */
+function addBuffer(
+    this: CliEditor,
+    content: string,
+    filepath: string,
+    recovered: boolean = false,
+    encoding: FileEncoding = 'utf-8',
+    bom: boolean = false,
+    editorConfig: EditorConfig = {},
+): EditorBuffer {
+    const document = new TextDocument(content);
+    const history = new HistoryManager(this.historyLimit, this.undoIdleTime);
+    if (recovered) history.markUnsaved(); // The file on disk has other content
+    // Only the active buffer's document is edited, so the cursor is the editor's
+    document.onEdit = edit => history.record(edit, this.getCurrentState());
+
+    const buffer: EditorBuffer = {
+        document,
+        lineEnding: editorConfig.endOfLine ?? detectLineEnding(content),
+        encoding: editorConfig.charset?.encoding ?? encoding,
+        bom: editorConfig.charset?.bom ?? bom,
+        ...this.resolveIndentation(content, editorConfig),
+        editorConfig,
+        hexView: null,
+        filepath,
+        isDirty: recovered,
+        hasSaved: false,
+        cursorX: 0,
+        cursorY: 0,
+        selectionAnchor: null,
+        rowOffset: 0,
+        history,
+        syntaxCache: new Map(),
+        // Reads the live state while the buffer is active, and its own record otherwise
+        swapManager: new SwapManager(filepath, () => this.buffers[this.activeBufferIndex] === buffer
+            ? this.getFileContent()
+            : buffer.document.getText(LINE_BREAKS[buffer.lineEnding])),
+    };
+    this.buffers.push(buffer);
+    return buffer;
+}
+
+/**
+ * Makes the buffer at `index` the active one.
+ */
+function switchBuffer(this: CliEditor, index: number): void {
+    if (index < 0 || index >= this.buffers.length || index === this.activeBufferIndex) return;
+
+    this.stopSwap();
+    this.stashActiveBuffer();
+
+    this.activeBufferIndex = index;
+    this.loadBuffer(this.buffers[index]);
+    this.startSwap();
+
+    this.mode = 'edit';
+    this.quitConfirm = false;
+    this.closeConfirm = false;
+    this.clearSearchResults();
+    this.setStatusMessage(`Buffer ${index + 1}/${this.buffers.length}: ${this.getBufferName(this.buffers[index])}`, 2000);
+}
+
+/**
+ * Flushes and stops the active buffer's swap file, before another buffer
+ * becomes active (only the active buffer's swap file is written periodically).
+ */
+function stopSwap(this: CliEditor): void {
+    if (this.swapEnabled && !this.readOnly) {
+        this.swapManager.update();
+        this.swapManager.stop();
+    }
+}
+
+/**
+ * Starts the active buffer's swap file (once the editor is running).
+ */
+function startSwap(this: CliEditor): void {
+    if (this.swapEnabled && !this.readOnly && this.resolvePromise) {
+        this.swapManager.start();
+    }
+}
+
+/**
+ * Cycles to the next (+1) or previous (-1) buffer.
+ */
+function cycleBuffer(this: CliEditor, direction: 1 | -1): void {
+    if (this.buffers.length < 2) {
+        this.setStatusMessage('No other buffers', 1500);
+        return;
+    }
+    const count = this.buffers.length;
+    this.switchBuffer((this.activeBufferIndex + direction + count) % count);
+}
+
+/**
+ * Opens a file in a new buffer (or switches to it if it is already open).
+ * Recovers the content from the file's swap file if one exists.
+ */
+async function openBuffer(this: CliEditor, filepath: string): Promise<void> {
+    this.stashActiveBuffer();
+    const existing = this.buffers.findIndex(buffer => buffer.filepath === filepath);
+    if (existing !== -1) {
+        this.switchBuffer(existing);
+        this.render();
+        return;
+    }
+
+    let loaded: LoadedContent;
+    try {
+        const editable = !this.readOnly;
+        loaded = await readBufferContent(filepath, this.swapEnabled && editable, this.largeFileThreshold, this.undoFileEnabled && editable);
+    } catch (err) {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        this.setStatusMessage(`Open Error: ${(err as any).message}`);
+        return;
+    }
+    if (this.isExiting) {
+        loaded.largeFile?.close();
+        return;
+    }
+
+    const buffer = this.addBuffer(loaded.content, filepath, loaded.recovered, loaded.encoding, loaded.bom, loaded.editorConfig);
+    if (loaded.largeFile) this.attachLargeFile(buffer, loaded.largeFile);
+    if (loaded.binary) this.attachHexView(buffer, loaded.binary);
+    if (loaded.undoHistory) {
+        try {
+            buffer.history.load(loaded.undoHistory, buffer.document);
+        } catch {
+            // Unusable undo file: start with an empty history
+        }
+    }
+    this.switchBuffer(this.buffers.length - 1);
+    if (loaded.recovered) {
+        this.setStatusMessage('RECOVERED FROM SWAP FILE');
+    }
+    this.render();
+}
+
+/**
+ * Closes the active buffer. Asks for confirmation if it has unsaved changes;
+ * closing the last buffer quits the editor.
+ */
+function closeBuffer(this: CliEditor): void {
+    if (this.isDirty && !this.closeConfirm) {
+        this.closeConfirm = true;
+        this.setStatusMessage('Warning: Unsaved changes! Close the buffer again to discard them.');
+        setTimeout(() => { this.closeConfirm = false; }, 3000);
+        return;
+    }
+    this.closeConfirm = false;
+
+    this.stashPane();
+    this.stashActiveBuffer();
+    if (this.buffers.length === 1) {
+        this.isExiting = true;
+        this.resolvePromise?.(this.getResult());
+        return;
+    }
+
+    const index = this.activeBufferIndex;
+    const [closed] = this.buffers.splice(index, 1);
+    closed.swapManager.stop();
+    this.closedFiles.push(this.getFileResult(closed));
+    if (closed.document instanceof LargeFileDocument) closed.document.close();
+
+    // Load the neighbouring buffer directly (the closed one must not be stashed)
+    this.activeBufferIndex = Math.min(index, this.buffers.length - 1);
+    this.loadBuffer(this.buffers[this.activeBufferIndex]);
+    this.retargetPanes(closed, this.buffers[this.activeBufferIndex]);
+    this.startSwap();
+    this.mode = 'edit';
+    this.clearSearchResults();
+    this.setStatusMessage(`Closed ${this.getBufferName(closed)}`, 2000);
+}
+
+/**
+ * Shows the open buffers in the status bar: the active one in brackets,
+ * dirty ones marked with '*'.
+ */
+function listBuffers(this: CliEditor): void {
+    this.stashActiveBuffer();
+    const entries = this.buffers.map((buffer, i) => {
+        const entry = `${i + 1}:${buffer.isDirty ? '*' : ''}${this.getBufferName(buffer)}`;
+        return i === this.activeBufferIndex ? `[${entry}]` : entry;
+    });
+    this.setStatusMessage('Buffers: ' + entries.join(' '), 5000);
+}
+
+/**
+ * Returns the names of the inactive buffers that have unsaved changes.
+ */
+function getOtherDirtyBuffers(this: CliEditor): string[] {
+    return this.buffers
+        .filter((buffer, i) => i !== this.activeBufferIndex && buffer.isDirty)
+        .map(buffer => this.getBufferName(buffer));
+}
+
+/**
+ * Builds the value `run()` resolves with: the active buffer's result plus
+ * per-file results for every buffer opened during the session.
+ */
+function getResult(this: CliEditor): EditorResult {
+    this.stashActiveBuffer();
+    const files: FileResult[] = [
+        ...this.closedFiles,
+        ...this.buffers.map(buffer => this.getFileResult(buffer)),
+    ];
+    const { saved, content, largeFile, bytes } = files[this.closedFiles.length + this.activeBufferIndex];
+    const result: EditorResult = { saved, content, files };
+    if (largeFile) result.largeFile = largeFile;
+    if (bytes) result.bytes = bytes;
+    return result;
+}
+
+/**
+ * The result for one buffer. Large files are flagged with `largeFile`: their
+ * content was never loaded, and the empty `content` must not be written back.
+ * Buffers in the hex view (whose document is empty) report their bytes, and
+ * the bytes decoded with the buffer's encoding as `content`.
+ */
+function getFileResult(this: CliEditor, buffer: EditorBuffer): FileResult {
+    if (buffer.document instanceof LargeFileDocument) {
+        return { filepath: buffer.filepath, saved: false, content: '', largeFile: true };
+    }
+    if (buffer.hexView) {
+        const { bytes } = buffer.hexView;
+        return { filepath: buffer.filepath, saved: buffer.hasSaved, content: decodeAs(bytes, buffer.encoding).text, bytes: Buffer.from(bytes) };
+    }
+    return { filepath: buffer.filepath, saved: buffer.hasSaved, content: buffer.document.getText(LINE_BREAKS[buffer.lineEnding]) };
+}
+
+/**
+ * Enters the 'Open File' prompt.
+ */
+function enterOpenFileMode(this: CliEditor): void {
+    this.mode = 'open_file';
+    this.openFileQuery = '';
+    this.setStatusMessage('Open File: ', 0);
+}
+
+export const bufferMethods = {
+    getBufferName,
+    stashActiveBuffer,
+    loadBuffer,
+    resolveIndentation,
+    applyEditorConfig,
+    addBuffer,
+    stopSwap,
+    startSwap,
+    switchBuffer,
+    cycleBuffer,
+    openBuffer,
+    closeBuffer,
+    listBuffers,
+    getOtherDirtyBuffers,
+    getResult,
+    getFileResult,
+    enterOpenFileMode,
+};
@@ -6,6 +6,8 @@ import { CliEditor } from './editor.js';
 
 /**
  * Methods related to system clipboard interaction (Copy/Paste/Cut).
+ * The edits happen after waiting for the clipboard, so each action closes its
+ * own undo step (`saveState()` without a kind never joins typing).
  */
 
 // --- Helper Functions (Clipboard Access) ---
@@ -76,20 +78,20 @@ function getClipboard(this: CliEditor): Promise<string> {
  * Falls back to line-based behavior if no selection.
  */
 async function cutLine(this: CliEditor): Promise<void> {
-    if (this.lines.length > 1 || (this.lines.length === 1 && this.lines[0] !== '')) {
-      const lineToCut = this.lines[this.cursorY];
+    if (this.guardReadOnly()) return;
+    if (this.document.lineCount > 1 || this.document.getLine(0) !== '') {
+      const lineToCut = this.document.getLine(this.cursorY);
       await this.setClipboard(lineToCut);
       
-      this.lines.splice(this.cursorY, 1);
+      // The document keeps at least one (empty) line
+      this.document.deleteLines(this.cursorY, 1);
       
-      if (this.cursorY >= this.lines.length) {
-        this.cursorY = Math.max(0, this.lines.length - 1);
-      }
-      if (this.lines.length === 0) {
-        this.lines = [''];
+      if (this.cursorY >= this.document.lineCount) {
+        this.cursorY = this.document.lineCount - 1;
       }
       this.cursorX = 0;
-      this.setDirty();
+      this.setDirty(this.cursorY, this.cursorY);
+      this.saveState();
       this.setStatusMessage('Line cut to clipboard', 1000);
     }
 }
@@ -99,6 +101,7 @@ async function cutLine(this: CliEditor): Promise<void> {
  * Handles single-line and multi-line pastes.
  */
 async function pasteLine(this: CliEditor): Promise<void> {
+    if (this.guardReadOnly()) return;
     try {
       const textToPaste = await this.getClipboard();
       if (!textToPaste) return;
@@ -110,6 +113,7 @@ async function pasteLine(this: CliEditor): Promise<void> {
       }
       
       this.insertContentAtCursor(pasteLines);
+      this.saveState();
 
     } catch (error) {
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -122,13 +126,14 @@ async function pasteLine(this: CliEditor): Promise<void> {
  * Renamed to avoid collision with command handler in editor.keys.ts
  */
 async function cutSelectionAsync(this: CliEditor): Promise<void> {
+    if (this.guardReadOnly()) return;
     if (!this.selectionAnchor) {
         await this.cutLine(); 
     } else {
         const textToCut = this.getSelectedText();
         await this.setClipboard(textToCut);
         this.deleteSelectedText();
-        this.setDirty();
+        this.saveState();
         this.setStatusMessage('Selection cut!', 1000);
     }
 }
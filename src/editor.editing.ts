@@ -1,6 +1,7 @@
 // src/editor.editing.ts
 
 import { CliEditor } from './editor.js';
+import { nextGraphemeOffset, previousGraphemeOffset } from './unicode.js';
 
 /**
  * Core methods for editing the document content (insert, delete, split/join lines).
@@ -12,36 +13,14 @@ import { CliEditor } from './editor.js';
  * @param contentLines An array of strings to insert.
  */
 function insertContentAtCursor(this: CliEditor, contentLines: string[]): void {
-    const pasteLength = contentLines.length;
+    if (this.guardReadOnly()) return;
+    const startY = this.cursorY;
 
-    if (pasteLength === 1) {
-        const line = this.lines[this.cursorY] || '';
-        this.lines[this.cursorY] = line.slice(0, this.cursorX) + contentLines[0] + line.slice(this.cursorX);
-        this.cursorX += contentLines[0].length;
-    } else {
-        // Multi-line paste logic
-        const line = this.lines[this.cursorY] || '';
-        const remainder = line.slice(this.cursorX);
-        
-        // 1. Update current line with the first part of the paste
-        this.lines[this.cursorY] = line.slice(0, this.cursorX) + contentLines[0];
-        
-        const linesToInsert = contentLines.slice(1, -1);
-        const lastPasteLine = contentLines[contentLines.length - 1];
-        
-        // 2. Insert middle lines
-        if (linesToInsert.length > 0) {
-          this.lines.splice(this.cursorY + 1, 0, ...linesToInsert);
-        }
-
-        // 3. Insert last line and append remainder
-        this.lines.splice(this.cursorY + 1 + linesToInsert.length, 0, lastPasteLine + remainder);
-        
-        // 4. Update cursor position
-        this.cursorY += pasteLength - 1;
-        this.cursorX = lastPasteLine.length;
-    }
-    this.setDirty();
+    // The document splits the current line and inserts any middle lines in one edit
+    const end = this.document.insert({ x: this.cursorX, y: this.cursorY }, contentLines.join('\n'));
+    this.cursorX = end.x;
+    this.cursorY = end.y;
+    this.setDirty(startY, this.cursorY);
     this.invalidateSyntaxCache();
 }
 
@@ -49,41 +28,56 @@ function insertContentAtCursor(this: CliEditor, contentLines: string[]): void {
  * Inserts a single character at the cursor position.
  */
 function insertCharacter(this: CliEditor, char: string): void {
-    const line = this.lines[this.cursorY] || '';
-    this.lines[this.cursorY] = line.slice(0, this.cursorX) + char + line.slice(this.cursorX);
+    if (this.guardReadOnly()) return;
+    this.document.insert({ x: this.cursorX, y: this.cursorY }, char);
     this.cursorX += char.length;
+    this.setDirty(this.cursorY, this.cursorY);
     this.invalidateSyntaxCache();
 }
 
 /**
- * Inserts a soft tab (using configured tabSize).
+ * Returns one level of indentation: a tab with `useTabs`, otherwise indentSize spaces.
  */
-function insertSoftTab(this: CliEditor): void { 
-    const spaces = ' '.repeat(this.tabSize || 4);
-    this.insertCharacter(spaces); 
+function getIndentUnit(this: CliEditor): string {
+    return this.useTabs ? '\t' : ' '.repeat(this.indentSize || 4);
+}
+
+/**
+ * Inserts a tab: a real '\t' with `useTabs`, otherwise a soft tab (indentSize spaces).
+ */
+function insertTab(this: CliEditor): void { 
+    this.insertCharacter(this.getIndentUnit()); 
     // invalidation handled in insertCharacter
 }
 
 /**
  * Inserts a new line, splitting the current line at the cursor position.
- * Implements auto-indent.
+ * Implements auto-indent: keeps the current line's indentation, one level
+ * deeper after an opening bracket.
  */
 function insertNewLine(this: CliEditor): void {
-    const line = this.lines[this.cursorY] || '';
+    if (this.guardReadOnly()) return;
+    const line = this.document.getLine(this.cursorY);
     
     // Find indentation of the current line
     const match = line.match(/^(\s*)/);
-    const indent = match ? match[1] : '';
-    
-    const remainder = line.slice(this.cursorX);
-    this.lines[this.cursorY] = line.slice(0, this.cursorX);
+    const baseIndent = match ? match[1] : '';
+    let indent = baseIndent;
+    let text = '\n' + indent;
+    if (/[{[(]\s*$/.test(line.slice(0, this.cursorX))) {
+        indent += this.getIndentUnit();
+        text = '\n' + indent;
+        // Between a bracket pair, the closing bracket moves to its own line
+        if (/^[}\])]/.test(line.slice(this.cursorX))) text += '\n' + baseIndent;
+    }
     
-    // Add new line with the same indentation + remainder
-    this.lines.splice(this.cursorY + 1, 0, indent + remainder);
+    // Split the line and start the new one with the indentation
+    const startY = this.cursorY;
+    const end = this.document.insert({ x: this.cursorX, y: this.cursorY }, text);
     
-    this.cursorY++;
+    this.cursorY = startY + 1;
     this.cursorX = indent.length; // Move cursor to end of indent
-    this.setDirty();
+    this.setDirty(startY, end.y);
     this.invalidateSyntaxCache();
 }
 
@@ -91,22 +85,20 @@ function insertNewLine(this: CliEditor): void {
  * Deletes the character before the cursor, or joins the current line with the previous one.
  */
 function deleteBackward(this: CliEditor): void {
+    if (this.guardReadOnly()) return;
     if (this.cursorX > 0) {
-      const line = this.lines[this.cursorY] || '';
-      this.lines[this.cursorY] = line.slice(0, this.cursorX - 1) + line.slice(this.cursorX);
-      this.cursorX--;
+      // Delete the whole grapheme cluster (an emoji or a letter with its combining marks)
+      const start = previousGraphemeOffset(this.document.getLine(this.cursorY), this.cursorX);
+      this.document.delete({ x: start, y: this.cursorY }, { x: this.cursorX, y: this.cursorY });
+      this.cursorX = start;
     } else if (this.cursorY > 0) {
-      const currentLine = this.lines[this.cursorY];
-      const previousLine = this.lines[this.cursorY - 1];
-      this.cursorX = previousLine.length;
-      this.lines[this.cursorY - 1] = previousLine + currentLine;
-      this.lines.splice(this.cursorY, 1);
+      // Join with the previous line
+      const previousLength = this.document.getLineLength(this.cursorY - 1);
+      this.document.delete({ x: previousLength, y: this.cursorY - 1 }, { x: 0, y: this.cursorY });
+      this.cursorX = previousLength;
       this.cursorY--;
     }
-    if (this.lines.length === 0) {
-        this.lines = ['']; this.cursorY = 0; this.cursorX = 0;
-    }
-    this.setDirty();
+    this.setDirty(this.cursorY, this.cursorY);
     this.invalidateSyntaxCache();
 }
 
@@ -114,18 +106,16 @@ function deleteBackward(this: CliEditor): void {
  * Deletes the character after the cursor, or joins the current line with the next one.
  */
 function deleteForward(this: CliEditor): void {
-    const line = this.lines[this.cursorY] || '';
-    if (this.cursorX < line.length) {
-      this.lines[this.cursorY] = line.slice(0, this.cursorX) + line.slice(this.cursorX + 1);
-    } else if (this.cursorY < this.lines.length - 1) {
-      const nextLine = this.lines[this.cursorY + 1];
-      this.lines[this.cursorY] = line + nextLine;
-      this.lines.splice(this.cursorY + 1, 1);
+    if (this.guardReadOnly()) return;
+    const lineLength = this.document.getLineLength(this.cursorY);
+    if (this.cursorX < lineLength) {
+      const end = nextGraphemeOffset(this.document.getLine(this.cursorY), this.cursorX);
+      this.document.delete({ x: this.cursorX, y: this.cursorY }, { x: end, y: this.cursorY });
+    } else if (this.cursorY < this.document.lineCount - 1) {
+      // Join with the next line
+      this.document.delete({ x: lineLength, y: this.cursorY }, { x: 0, y: this.cursorY + 1 });
     }
-    if (this.lines.length === 0) {
-        this.lines = ['']; this.cursorY = 0; this.cursorX = 0;
-    }
-    this.setDirty();
+    this.setDirty(this.cursorY, this.cursorY);
     this.invalidateSyntaxCache();
 }
 
@@ -137,6 +127,7 @@ function deleteForward(this: CliEditor): void {
  * @param closeChar The corresponding closing character (e.g., ')', ']', '}').
  */
 function handleAutoPair(this: CliEditor, openChar: string, closeChar: string): void {
+    if (this.guardReadOnly()) return;
     if (this.selectionAnchor) {
         // There is a selection, so we need to wrap it.
         const selection = this.getNormalizedSelection();
@@ -159,37 +150,37 @@ function handleAutoPair(this: CliEditor, openChar: string, closeChar: string): v
         // Move cursor back one position to be in between the pair
         this.cursorX--;
     }
-    this.setDirty();
 }
 
 /**
  * Indents the selected lines (Block Indentation).
  */
 function indentSelection(this: CliEditor): void {
-    this.saveState(); // Save state before modification for Undo
+    if (this.guardReadOnly()) return;
     const selection = this.getNormalizedSelection();
     if (!selection) return;
 
+    const indent = this.getIndentUnit();
     for (let i = selection.start.y; i <= selection.end.y; i++) {
-        const line = this.lines[i];
-        this.lines[i] = ' '.repeat(this.tabSize) + line;
+        this.document.insert({ x: 0, y: i }, indent);
     }
     
     // Adjust selection anchors
     if (this.selectionAnchor) {
-        this.selectionAnchor.x += this.tabSize;
-        this.cursorX += this.tabSize;
+        this.selectionAnchor.x += indent.length;
+        this.cursorX += indent.length;
     }
     
-    this.setDirty();
+    this.setDirty(selection.start.y, selection.end.y);
     this.invalidateSyntaxCache();
+    this.saveState('indent'); // The indentation is an undo step of its own
 }
 
 /**
  * Outdents the selected lines (Block Outdent).
  */
 function outdentSelection(this: CliEditor): void {
-    this.saveState(); // Save state before modification for Undo
+    if (this.guardReadOnly()) return;
     // If no selection, try to outdent current line
     let startY = this.cursorY;
     let endY = this.cursorY;
@@ -203,14 +194,15 @@ function outdentSelection(this: CliEditor): void {
     }
     
     let changed = false;
+    let removed = 0;
     for (let i = startY; i <= endY; i++) {
-        const line = this.lines[i];
-        // Remove up to tabSize spaces
-        const match = line.match(/^(\s+)/);
+        const line = this.document.getLine(i);
+        // Remove one leading tab, or up to indentSize spaces
+        const match = line.match(/^(\t| +)/);
         if (match) {
-             const spaces = match[1].length;
-             const toRemove = Math.min(spaces, this.tabSize);
-             this.lines[i] = line.slice(toRemove);
+             const toRemove = match[1] === '\t' ? 1 : Math.min(match[1].length, this.indentSize);
+             this.document.delete({ x: 0, y: i }, { x: toRemove, y: i });
+             removed = Math.max(removed, toRemove);
              changed = true;
         }
     }
@@ -218,13 +210,14 @@ function outdentSelection(this: CliEditor): void {
     if (changed) {
          if (this.selectionAnchor) {
              // Approximation: shift anchor and cursor left
-             this.selectionAnchor.x = Math.max(0, this.selectionAnchor.x - this.tabSize);
-             this.cursorX = Math.max(0, this.cursorX - this.tabSize);
+             this.selectionAnchor.x = Math.max(0, this.selectionAnchor.x - removed);
+             this.cursorX = Math.max(0, this.cursorX - removed);
          } else {
-             this.cursorX = Math.max(0, this.cursorX - this.tabSize);
+             this.cursorX = Math.max(0, this.cursorX - removed);
          }
-         this.setDirty();
+         this.setDirty(startY, endY);
          this.invalidateSyntaxCache();
+         this.saveState('indent'); // The outdent is an undo step of its own
     }
 }
 
@@ -233,7 +226,7 @@ function outdentSelection(this: CliEditor): void {
  * @param direction -1 for Up, 1 for Down
  */
 function moveLines(this: CliEditor, direction: -1 | 1): void {
-    this.saveState(); // Save state before modification for Undo
+    if (this.guardReadOnly()) return;
     let startY = this.cursorY;
     let endY = this.cursorY;
     
@@ -247,15 +240,15 @@ function moveLines(this: CliEditor, direction: -1 | 1): void {
     
     // Boundary checks
     if (direction === -1 && startY === 0) return; // Top
-    if (direction === 1 && endY >= this.lines.length - 1) return; // Bottom
+    if (direction === 1 && endY >= this.document.lineCount - 1) return; // Bottom
     
     // Extract lines to move
     const count = endY - startY + 1;
-    const linesToMove = this.lines.splice(startY, count);
+    const linesToMove = this.document.deleteLines(startY, count);
     
     // Insert at new position
     const newStart = startY + direction;
-    this.lines.splice(newStart, 0, ...linesToMove);
+    this.document.insertLines(newStart, linesToMove);
     
     // Update selection/cursor
     this.cursorY += direction;
@@ -263,14 +256,15 @@ function moveLines(this: CliEditor, direction: -1 | 1): void {
         this.selectionAnchor.y += direction;
     }
     
-    this.setDirty();
+    this.setDirty(Math.min(startY, newStart), Math.max(endY, endY + direction));
+    this.saveState('move'); // The move is an undo step of its own
 }
 
 /**
  * Duplicates the current line or selection.
  */
 function duplicateLineOrSelection(this: CliEditor): void {
-    this.saveState(); // Save state before modification for Undo
+    if (this.guardReadOnly()) return;
     if (this.selectionAnchor) {
         const selection = this.getNormalizedSelection();
         if (!selection) return;
@@ -287,20 +281,21 @@ function duplicateLineOrSelection(this: CliEditor): void {
         
     } else {
         // Single line duplication
-        const line = this.lines[this.cursorY];
-        this.lines.splice(this.cursorY + 1, 0, line);
+        const line = this.document.getLine(this.cursorY);
+        this.document.insertLines(this.cursorY + 1, [line]);
         this.cursorY++; // Move down to the new line
         // CursorX stays same? Usually yes.
+        this.setDirty(this.cursorY - 1, this.cursorY);
     }
-    
-    this.setDirty();
+    this.saveState('duplicate'); // The copy is an undo step of its own
 }
 
 
 export const editingMethods = {
     insertContentAtCursor,
     insertCharacter,
-    insertSoftTab,
+    getIndentUnit,
+    insertTab,
     insertNewLine,
     deleteBackward,
     deleteForward,
@@ -0,0 +1,47 @@
+// src/editor.events.ts
+
+import { CliEditor } from './editor.js';
+
+/**
+ * Methods that translate internal state changes into the public events
+ * declared in `EditorEvents` (see types.ts).
+ */
+
+/**
+ * Emits a 'change' event for the given (inclusive) line range.
+ * Defaults to the whole document when no range is known.
+ */
+function emitContentChange(this: CliEditor, startLine?: number, endLine?: number): void {
+    const lineCount = this.document.lineCount;
+    const start = Math.max(0, Math.min(startLine ?? 0, lineCount - 1));
+    const end = Math.max(start, Math.min(endLine ?? lineCount - 1, lineCount - 1));
+    this.emit('change', { startLine: start, endLine: end, lineCount });
+}
+
+/**
+ * Compares cursor, selection and mode with the last emitted values and
+ * emits 'cursor' / 'mode' events for whatever has changed since.
+ * Called once per frame, so bursts of movement collapse into one event.
+ */
+function emitStateEvents(this: CliEditor): void {
+    const selection = this.getNormalizedSelection();
+    const cursorKey = `${this.cursorX},${this.cursorY}` + (selection
+        ? `:${selection.start.x},${selection.start.y}-${selection.end.x},${selection.end.y}`
+        : '');
+
+    if (cursorKey !== this.lastCursorKey) {
+        this.lastCursorKey = cursorKey;
+        this.emit('cursor', { cursorX: this.cursorX, cursorY: this.cursorY, selection });
+    }
+
+    if (this.mode !== this.lastEmittedMode) {
+        const previousMode = this.lastEmittedMode;
+        this.lastEmittedMode = this.mode;
+        this.emit('mode', { mode: this.mode, previousMode });
+    }
+}
+
+export const eventMethods = {
+    emitContentChange,
+    emitStateEvents,
+};
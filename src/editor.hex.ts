@@ -0,0 +1,387 @@
+// src/editor.hex.ts
+
+import { promises as fs } from 'fs';
+import { CliEditor } from './editor.js';
+import { EditorBuffer } from './editor.buffers.js';
+import { ANSI } from './constants.js';
+import { detectLineEnding, TextDocument } from './document.js';
+import { decodeAs, encodeText, isBinary } from './encoding.js';
+import { EditorCommand, isTextInput } from './keymap.js';
+
+/**
+ * Hex view for binary files: an offset gutter, hex columns and a text pane.
+ * Typing overwrites nibbles (hex pane) or bytes (text pane); saving writes the
+ * raw bytes. While a buffer is in the hex view its TextDocument is empty.
+ * `onSave` and `validate` only handle text, so with either set the hex view
+ * can't be entered with Alt+B and binary files can't be saved.
+ */
+
+/**
+ * A reversible change of the bytes: `removed` at `offset` was replaced by `inserted`.
+ */
+interface HexEdit {
+    offset: number;
+    removed: Buffer;
+    inserted: Buffer;
+}
+
+/**
+ * Per-buffer state of the hex view.
+ */
+export interface HexView {
+    bytes: Buffer;
+    offset: number; // Cursor (bytes.length = append position)
+    lowNibble: boolean; // Cursor on the second hex digit
+    pane: 'hex' | 'text';
+    rowOffset: number; // First visible row
+    undoStack: HexEdit[];
+    redoStack: HexEdit[];
+}
+
+// Width of the offset gutter ('0000abcd  ')
+const OFFSET_WIDTH = 10;
+
+// Commands that work the same in the hex view (files, buffers, panes)
+const PASSTHROUGH_COMMANDS: EditorCommand[] = [
+    'save', 'saveAndQuit', 'quit', 'toggleHexView',
+    'openFile', 'nextBuffer', 'previousBuffer', 'listBuffers', 'closeBuffer',
+    'splitHorizontal', 'splitVertical', 'closePane', 'nextPane', 'previousPane',
+];
+
+function createHexView(bytes: Buffer): HexView {
+    return { bytes, offset: 0, lowNibble: false, pane: 'hex', rowOffset: 0, undoStack: [], redoStack: [] };
+}
+
+/**
+ * Shows a buffer's bytes in the hex view (used for files detected as binary).
+ */
+function attachHexView(this: CliEditor, buffer: EditorBuffer, bytes: Buffer): void {
+    buffer.hexView = createHexView(bytes);
+    if (this.buffers[this.activeBufferIndex] === buffer) {
+        this.hexView = buffer.hexView;
+    }
+}
+
+/**
+ * Switches the active buffer between the text and the hex view. The text is
+ * encoded with the buffer's encoding and line breaks; the bytes are decoded back
+ * the same way. Unsaved changes are kept (the dirty flag doesn't change).
+ */
+function toggleHexView(this: CliEditor): void {
+    if (this.isLargeFile()) {
+        this.setStatusMessage('The hex view is not available for large files');
+        return;
+    }
+
+    if (!this.hexView && (this.onSave || this.validate)) {
+        this.setStatusMessage('The hex view is not available with an onSave handler or validator');
+        return;
+    }
+
+    if (this.hexView) {
+        const { bytes } = this.hexView;
+        const decoded = decodeAs(bytes, this.encoding);
+        this.hexView = null;
+        this.document.restore(new TextDocument(decoded.text).snapshot());
+        this.lineEnding = detectLineEnding(decoded.text);
+        this.bom = decoded.bom;
+        this.cursorX = 0;
+        this.cursorY = 0;
+        this.rowOffset = 0;
+        this.setStatusMessage(isBinary(bytes) ? 'Text view (binary data: saving it as text may damage it)' : 'Text view', 3000);
+    } else {
+        this.hexView = createHexView(encodeText(this.getFileContent(), this.encoding, this.bom));
+        this.document.restore(new TextDocument().snapshot());
+        if (this.swapEnabled && !this.readOnly) {
+            this.swapManager.clear(); // The swap file only holds text
+        }
+        this.setStatusMessage('Hex view (Tab switches between hex and text)', 3000);
+    }
+
+    this.cancelSelection();
+    this.clearSearchResults();
+    this.history.clear(); // Text states don't apply across views
+    this.saveState();
+    this.invalidateSyntaxCache();
+    this.emitContentChange();
+}
+
+/**
+ * Bytes shown per row: 16 if the pane is wide enough, otherwise fewer.
+ */
+function getHexBytesPerRow(this: CliEditor): number {
+    // Each byte takes 3 cells in the hex columns and 1 in the text pane
+    for (const count of [16, 8, 4, 2]) {
+        if (OFFSET_WIDTH + count * 4 + 1 <= this.screenCols) return count;
+    }
+    return 1;
+}
+
+/**
+ * Moves the hex cursor, clamped to the bytes (and the append position after them).
+ */
+function moveHexCursor(this: CliEditor, offset: number, lowNibble: boolean = false): void {
+    const view = this.hexView!;
+    view.offset = Math.max(0, Math.min(offset, view.bytes.length));
+    view.lowNibble = lowNibble && view.pane === 'hex' && view.offset < view.bytes.length;
+}
+
+/**
+ * Replaces `count` bytes at `offset` and records the change for undo.
+ */
+function replaceHexBytes(this: CliEditor, offset: number, count: number, inserted: Buffer): void {
+    const view = this.hexView!;
+    const removed = Buffer.from(view.bytes.subarray(offset, offset + count));
+    spliceBytes(view, offset, count, inserted);
+    view.undoStack.push({ offset, removed, inserted });
+    view.redoStack = [];
+    this.setDirty();
+}
+
+function spliceBytes(view: HexView, offset: number, count: number, inserted: Buffer): void {
+    if (count === inserted.length) {
+        inserted.copy(view.bytes, offset); // Overwrite in place
+    } else {
+        view.bytes = Buffer.concat([view.bytes.subarray(0, offset), inserted, view.bytes.subarray(offset + count)]);
+    }
+}
+
+/**
+ * Types into the hex view: a hex digit sets the nibble under the cursor, text
+ * in the text pane overwrites bytes. Typing at the end appends.
+ */
+function typeHex(this: CliEditor, text: string): void {
+    if (this.guardReadOnly()) return;
+    const view = this.hexView!;
+
+    if (view.pane === 'hex') {
+        if (!/^[0-9a-f]$/i.test(text)) {
+            this.setStatusMessage('Type hex digits (0-9, a-f)', 1500);
+            return;
+        }
+        const digit = parseInt(text, 16);
+        const atEnd = view.offset === view.bytes.length;
+        const old = atEnd ? 0 : view.bytes[view.offset];
+        const value = view.lowNibble ? (old & 0xF0) | digit : (digit << 4) | (old & 0x0F);
+        this.replaceHexBytes(view.offset, atEnd ? 0 : 1, Buffer.from([value]));
+        if (view.lowNibble) this.moveHexCursor(view.offset + 1);
+        else view.lowNibble = true;
+        return;
+    }
+
+    for (const ch of text) {
+        const code = ch.codePointAt(0)!;
+        if (code > 0xFF) {
+            this.setStatusMessage('Only characters up to U+00FF can be typed as bytes', 1500);
+            return;
+        }
+        this.replaceHexBytes(view.offset, view.offset < view.bytes.length ? 1 : 0, Buffer.from([code]));
+        this.moveHexCursor(view.offset + 1);
+    }
+}
+
+/**
+ * Undoes (or redoes) the last byte change in the hex view.
+ */
+function undoHex(this: CliEditor, redo: boolean): void {
+    if (this.guardReadOnly()) return;
+    const view = this.hexView!;
+    const edit = (redo ? view.redoStack : view.undoStack).pop();
+    if (!edit) {
+        this.setStatusMessage(redo ? 'Already at newest change' : 'Already at oldest change');
+        return;
+    }
+    if (redo) {
+        spliceBytes(view, edit.offset, edit.removed.length, edit.inserted);
+        view.undoStack.push(edit);
+    } else {
+        spliceBytes(view, edit.offset, edit.inserted.length, edit.removed);
+        view.redoStack.push(edit);
+    }
+    this.moveHexCursor(edit.offset);
+    this.setDirty();
+    this.setStatusMessage(redo ? 'Redo successful' : 'Undo successful');
+}
+
+/**
+ * Handles a key in the hex view. Returns false for commands that work as in
+ * the text view (save, quit, buffers, panes); other commands are blocked.
+ */
+function handleHexKeys(this: CliEditor, key: string, command: EditorCommand | undefined): boolean {
+    if (command && PASSTHROUGH_COMMANDS.includes(command)) return false;
+    const view = this.hexView!;
+    const perRow = this.getHexBytesPerRow();
+    const rowStart = view.offset - (view.offset % perRow);
+
+    switch (command) {
+        case 'cursorLeft':
+            if (view.lowNibble) view.lowNibble = false;
+            else if (view.offset > 0) this.moveHexCursor(view.offset - 1, true);
+            break;
+        case 'cursorRight':
+            if (view.pane === 'hex' && !view.lowNibble && view.offset < view.bytes.length) view.lowNibble = true;
+            else this.moveHexCursor(view.offset + 1);
+            break;
+        case 'cursorUp':
+            if (view.offset >= perRow) this.moveHexCursor(view.offset - perRow, view.lowNibble);
+            break;
+        case 'cursorDown':
+            this.moveHexCursor(view.offset + perRow, view.lowNibble);
+            break;
+        case 'lineStart':
+            this.moveHexCursor(rowStart);
+            break;
+        case 'lineEnd':
+            this.moveHexCursor(rowStart + perRow - 1);
+            break;
+        case 'pageUp':
+        case 'pageDown':
+        case 'scrollUp':
+        case 'scrollDown': {
+            const rows = command.startsWith('page') ? this.screenRows : 3;
+            const direction = command === 'pageUp' || command === 'scrollUp' ? -1 : 1;
+            this.moveHexCursor(Math.max(view.offset % perRow, view.offset + direction * rows * perRow));
+            break;
+        }
+        case 'indent': // Tab
+            view.pane = view.pane === 'hex' ? 'text' : 'hex';
+            view.lowNibble = false;
+            break;
+        case 'deleteBackward':
+            if (this.guardReadOnly() || view.offset === 0) break;
+            this.replaceHexBytes(view.offset - 1, 1, Buffer.alloc(0));
+            this.moveHexCursor(view.offset - 1);
+            break;
+        case 'deleteForward':
+            if (this.guardReadOnly() || view.offset === view.bytes.length) break;
+            this.replaceHexBytes(view.offset, 1, Buffer.alloc(0));
+            this.moveHexCursor(view.offset);
+            break;
+        case 'undo':
+        case 'redo':
+            this.undoHex(command === 'redo');
+            break;
+        case undefined:
+            if (isTextInput(key)) this.typeHex(key);
+            break;
+        default:
+            this.setStatusMessage('Not available in the hex view', 1500);
+    }
+    return true;
+}
+
+/**
+ * Keeps the hex cursor's row inside the viewport.
+ */
+function scrollHexView(this: CliEditor): void {
+    const view = this.hexView!;
+    const row = Math.floor(view.offset / this.getHexBytesPerRow());
+    if (row < view.rowOffset) view.rowOffset = row;
+    if (row >= view.rowOffset + this.screenRows) view.rowOffset = row - this.screenRows + 1;
+}
+
+/**
+ * Draws the focused pane's hex view: offset, hex digits and text per row.
+ * The cursor is inverted in the active pane and underlined in the other one.
+ */
+function renderHexPane(this: CliEditor): void {
+    const view = this.hexView!;
+    const left = this.screenStartCol - 1;
+    const perRow = this.getHexBytesPerRow();
+    const textX = left + OFFSET_WIDTH + perRow * 3 + 1;
+    this.scrollHexView();
+
+    for (let screenRow = 0; screenRow < this.screenRows; screenRow++) {
+        const y = this.screenStartRow - 1 + screenRow;
+        const start = (view.rowOffset + screenRow) * perRow;
+        if (start > view.bytes.length) {
+            this.screenBuffer.put(left, y, '~', ANSI.CYAN);
+            continue;
+        }
+        this.screenBuffer.putString(left, y, start.toString(16).padStart(8, '0'), ANSI.DIM);
+
+        for (let i = 0; i < perRow && start + i <= view.bytes.length; i++) {
+            const offset = start + i;
+            const hexX = left + OFFSET_WIDTH + i * 3;
+            const isCursor = offset === view.offset;
+            if (offset === view.bytes.length) {
+                // Append position: only the cursor is drawn
+                if (isCursor) this.screenBuffer.put(view.pane === 'hex' ? hexX : textX + i, y, ' ', ANSI.INVERT_COLORS);
+                break;
+            }
+
+            const byte = view.bytes[offset];
+            const digits = byte.toString(16).padStart(2, '0');
+            for (let d = 0; d < 2; d++) {
+                const active = isCursor && view.pane === 'hex' && view.lowNibble === (d === 1);
+                this.screenBuffer.put(hexX + d, y, digits[d], active ? ANSI.INVERT_COLORS : isCursor ? ANSI.UNDERLINE : '');
+            }
+
+            const printable = byte >= 0x20 && byte < 0x7F;
+            let style = printable ? '' : ANSI.DIM;
+            if (isCursor) style = view.pane === 'text' ? ANSI.INVERT_COLORS : ANSI.UNDERLINE;
+            this.screenBuffer.put(textX + i, y, printable ? String.fromCharCode(byte) : '.', style);
+        }
+    }
+}
+
+/**
+ * Screen position (0-based) of the hex cursor in the active pane.
+ */
+function getHexCursorPosition(this: CliEditor): { x: number, y: number } {
+    const view = this.hexView!;
+    const perRow = this.getHexBytesPerRow();
+    const column = view.offset % perRow;
+    const left = this.screenStartCol - 1;
+    const x = view.pane === 'hex'
+        ? left + OFFSET_WIDTH + column * 3 + (view.lowNibble ? 1 : 0)
+        : left + OFFSET_WIDTH + perRow * 3 + 1 + column;
+    return { x, y: this.screenStartRow - 1 + Math.floor(view.offset / perRow) - view.rowOffset };
+}
+
+/**
+ * Writes the hex view's bytes to the file as they are. Refused with `onSave`
+ * or `validate` set, which only apply to text. The 'save' event carries the
+ * written bytes.
+ */
+async function saveHexView(this: CliEditor): Promise<boolean> {
+    const { bytes } = this.hexView!;
+    if (this.onSave || this.validate) {
+        // They only handle text: writing the bytes to disk would bypass them
+        this.setStatusMessage('Cannot save binary data with an onSave handler or validator');
+        return false;
+    }
+    try {
+        await fs.writeFile(this.filepath, bytes);
+        if (this.swapEnabled && !this.readOnly) {
+            await this.swapManager.clear();
+        }
+        this.saveState();
+        this.history.markSaved();
+        this.isDirty = false;
+        this.hasSaved = true;
+        this.quitConfirm = false;
+        this.setStatusMessage(`Saved: ${this.filepath} (${bytes.length} bytes)`, 2000);
+        this.emit('save', { filepath: this.filepath, bytes: Buffer.from(bytes) });
+        return true;
+    } catch (err) {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        this.setStatusMessage(`Save Error: ${(err as any).message}`);
+        return false;
+    }
+}
+
+export const hexMethods = {
+    attachHexView,
+    toggleHexView,
+    getHexBytesPerRow,
+    moveHexCursor,
+    replaceHexBytes,
+    typeHex,
+    undoHex,
+    handleHexKeys,
+    scrollHexView,
+    renderHexPane,
+    getHexCursorPosition,
+    saveHexView,
+};
@@ -1,51 +1,64 @@
 // src/editor.history.ts
 
 import { CliEditor } from './editor.js';
-import { DocumentState } from './types.js';
+import { CursorState } from './types.js';
+import { EditKind } from './history.js';
+import { writeUndoFile } from './undo_file.js';
 
 /**
  * Methods related to Undo/Redo operations.
+ * The document reports each edit to the active buffer's HistoryManager
+ * (see addBuffer); `saveState` closes the current undo step.
  */
 
 /**
- * Gets the current document state (content and cursor position).
+ * Gets the current cursor and selection state.
  */
-function getCurrentState(this: CliEditor): DocumentState {
+function getCurrentState(this: CliEditor): CursorState {
     return {
-      // Use JSON to deep clone the lines array
-      lines: JSON.parse(JSON.stringify(this.lines)), 
       cursorX: this.cursorX,
       cursorY: this.cursorY,
+      selectionAnchor: this.selectionAnchor ? { ...this.selectionAnchor } : null,
     };
 }
 
 /**
- * Saves the current state to the history manager.
+ * Closes the current undo step: edits made since the last call are undone together.
+ * Typing and deleting keys pass their `kind`, so runs of them join one step.
  */
-function saveState(this: CliEditor, _initial: boolean = false): void {
-    // Only save if content is different from the last state, 
-    // but ALWAYS save the initial state.
-    this.history.saveState(this.getCurrentState());
+function saveState(this: CliEditor, kind?: EditKind): void {
+    this.history.checkpoint(this.getCurrentState(), kind);
 }
 
 /**
- * Loads a document state from the history manager.
+ * Restores a cursor and selection state from the history manager.
  */
-function loadState(this: CliEditor, state: DocumentState): void {
-    this.lines = state.lines;
+function loadState(this: CliEditor, state: CursorState): void {
     this.cursorX = state.cursorX;
     this.cursorY = state.cursorY;
+    this.selectionAnchor = state.selectionAnchor ? { ...state.selectionAnchor } : null;
     this.adjustCursorPosition();
 }
 
+/**
+ * Marks the buffer dirty after moving through the history (emitting the
+ * change), unless it is back at the state that was last saved.
+ */
+function setDirtyFromHistory(this: CliEditor): void {
+    this.setDirty();
+    this.isDirty = !this.history.isSaved;
+}
+
 /**
  * Performs an undo operation.
  */
 function undo(this: CliEditor): void {
-    const state = this.history.undo(this.getCurrentState());
+    if (this.guardReadOnly()) return;
+    this.saveState(); // Edits not yet closed into a step are undone first
+    const state = this.history.undo(this.document);
     if (state) {
         this.loadState(state);
-        this.setDirty();
+        this.setDirtyFromHistory();
         this.invalidateSyntaxCache();
         this.setStatusMessage('Undo successful');
     }
@@ -58,10 +71,12 @@ function undo(this: CliEditor): void {
  * Performs a redo operation.
  */
 function redo(this: CliEditor): void {
-    const state = this.history.redo(this.getCurrentState());
+    if (this.guardReadOnly()) return;
+    this.saveState();
+    const state = this.history.redo(this.document);
     if (state) {
         this.loadState(state);
-        this.setDirty();
+        this.setDirtyFromHistory();
         this.invalidateSyntaxCache();
         this.setStatusMessage('Redo successful');
     }
@@ -70,10 +85,25 @@ function redo(this: CliEditor): void {
     }
 }
 
+/**
+ * Writes the history to the file's undo file (after a save), so the next
+ * session can undo past it. Failing to write it doesn't fail the save.
+ */
+async function saveUndoFile(this: CliEditor): Promise<void> {
+    if (!this.undoFileEnabled || this.readOnly || !this.filepath || this.onSave) return;
+    try {
+        await writeUndoFile(this.filepath, this.history, this.document.getText(), this.undoFileMaxSize);
+    } catch {
+        // The undo file is a convenience; the file itself was saved
+    }
+}
+
 export const historyMethods = {
     getCurrentState,
     saveState,
     loadState,
     undo,
     redo,
+    setDirtyFromHistory,
+    saveUndoFile,
 };
\ No newline at end of file
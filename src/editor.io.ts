@@ -2,36 +2,264 @@
 
 import { CliEditor } from './editor.js';
 import { promises as fs } from 'fs';
+import { ValidationIssue } from './types.js';
+import { detectLineEnding, LINE_BREAKS, TextDocument } from './document.js';
+import { canEncode, decodeAs, encodeText, formatEncoding, parseEncoding } from './encoding.js';
 
 /**
  * Methods related to File I/O and document state management (dirty flag).
  */
 
 /**
- * Sets the document state to 'dirty' (unsaved changes).
+ * Sets the document state to 'dirty' (unsaved changes) and emits a 'change'
+ * event for the affected (inclusive) line range, or the whole document if omitted.
  */
-function setDirty(this: CliEditor): void { 
+function setDirty(this: CliEditor, startLine?: number, endLine?: number): void { 
     this.isDirty = true; 
+    this.emitContentChange(startLine, endLine);
 }
 
 /**
- * Saves the current document content to the file path.
+ * Checks whether the buffer is read-only (the `readOnly` option, or a large file)
+ * before a mutating operation.
+ * Shows a status message and returns true if the operation must be blocked.
  */
-async function saveFile(this: CliEditor): Promise<void> {
-    const content = this.lines.join('\n');
+function guardReadOnly(this: CliEditor): boolean {
+    if (!this.readOnly && !this.isLargeFile()) return false;
+    this.setStatusMessage('Buffer is read-only', 1500);
+    return true;
+}
+
+/**
+ * Runs the configured validator (if any) against the content.
+ * Shows the first issue in the status bar and jumps to its line.
+ * Returns true if the content may be saved.
+ */
+async function runValidation(this: CliEditor, content: string): Promise<boolean> {
+    if (!this.validate) return true;
+
+    let result: Array<string | ValidationIssue>;
+    try {
+        result = await this.validate(content);
+    } catch (err) {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        result = [(err as any).message ?? String(err)];
+    }
+    const issues = result.map(issue => typeof issue === 'string' ? { message: issue } : issue);
+    if (issues.length === 0) return true;
+
+    const first = issues.find(issue => issue.line !== undefined) ?? issues[0];
+    if (first.line !== undefined) {
+        this.cancelSelection();
+        this.jumpToResult({ y: first.line - 1, x: Math.max(0, (first.column ?? 1) - 1) });
+        this.adjustCursorPosition();
+    }
+
+    const where = first.line !== undefined ? `Line ${first.line}: ` : '';
+    const more = issues.length > 1 ? ` (+${issues.length - 1} more)` : '';
+    this.setStatusMessage(`Cannot save: ${where}${first.message}${more}`, 5000);
+    return false;
+}
+
+/**
+ * Returns the content as it is written to disk: lines joined with the
+ * buffer's line break style.
+ */
+function getFileContent(this: CliEditor): string {
+    return this.document.getText(LINE_BREAKS[this.lineEnding]);
+}
+
+/**
+ * Switches the buffer between LF and CRLF line endings.
+ * Only the saved file changes, so this marks the buffer dirty without touching the content.
+ */
+function toggleLineEnding(this: CliEditor): void {
+    if (this.guardReadOnly()) return;
+    this.lineEnding = this.lineEnding === 'LF' ? 'CRLF' : 'LF';
+    this.isDirty = true;
+    this.history.markUnsaved(); // Undoing to the saved text doesn't restore the saved file
+    this.setStatusMessage(`Line endings: ${this.lineEnding}`, 2000);
+}
+
+/**
+ * The content `saveFile` writes and validates: the file content with the
+ * EditorConfig save-time settings applied, without changing the document
+ * (so a save that is blocked by validation or fails leaves the buffer as it was).
+ */
+function getSaveContent(this: CliEditor): string {
+    const { trimTrailingWhitespace, insertFinalNewline } = this.editorConfig;
+    if (this.readOnly || this.isLargeFile() || (!trimTrailingWhitespace && !insertFinalNewline)) {
+        return this.getFileContent();
+    }
+    const lines = this.document.getLines();
+    if (trimTrailingWhitespace) {
+        for (let y = 0; y < lines.length; y++) lines[y] = lines[y].replace(/[ \t]+$/, '');
+    }
+    if (insertFinalNewline && lines[lines.length - 1] !== '') lines.push('');
+    return lines.join(LINE_BREAKS[this.lineEnding]);
+}
+
+/**
+ * Applies the EditorConfig save-time settings to the document once a save
+ * succeeded: trims trailing whitespace and adds the final newline if requested.
+ * The changes are recorded in the history, so they can be undone.
+ */
+function applySaveSettings(this: CliEditor): void {
+    if (this.readOnly || this.isLargeFile()) return;
+    const { trimTrailingWhitespace, insertFinalNewline } = this.editorConfig;
+    let first = -1;
+    let last = -1;
+
+    if (trimTrailingWhitespace) {
+        for (let y = 0; y < this.document.lineCount; y++) {
+            const line = this.document.getLine(y);
+            const trimmed = line.replace(/[ \t]+$/, '');
+            if (trimmed === line) continue;
+            this.document.setLine(y, trimmed);
+            if (first === -1) first = y;
+            last = y;
+        }
+    }
+    const lastLine = this.document.lineCount - 1;
+    if (insertFinalNewline && this.document.getLine(lastLine) !== '') {
+        this.document.insertLines(lastLine + 1, ['']);
+        if (first === -1) first = lastLine;
+        last = lastLine + 1;
+    }
+
+    if (first !== -1) {
+        this.adjustCursorPosition();
+        this.setDirty(first, last);
+        this.invalidateSyntaxCache();
+        this.saveState();
+    }
+}
+
+/**
+ * Saves the current document content, either through the configured
+ * `onSave` handler or to the file path.
+ * Returns true if the content was saved.
+ */
+async function saveFile(this: CliEditor): Promise<boolean> {
+    if (this.hexView) return this.saveHexView();
+    const content = this.getSaveContent();
+    if (!(await this.runValidation(content))) {
+        return false;
+    }
     try {
-        await fs.writeFile(this.filepath, content, 'utf-8');
-        await this.swapManager.clear(); // Clear swap on successful save
+        if (this.onSave) {
+            await this.onSave(content, this.filepath);
+        } else {
+            await fs.writeFile(this.filepath, encodeText(content, this.encoding, this.bom));
+        }
+        this.applySaveSettings(); // Once written, the buffer shows what was
+        if (this.swapEnabled) {
+            await this.swapManager.clear(); // Clear swap on successful save
+        }
+        this.saveState(); // Edits made by the save settings are part of the saved state
+        this.history.markSaved();
+        await this.saveUndoFile();
         this.isDirty = false; // Reset dirty flag
+        this.hasSaved = true;
         this.quitConfirm = false; // Reset quit confirmation
-        this.setStatusMessage(`Saved: ${this.filepath}`, 2000);
+        this.setStatusMessage(this.onSave ? 'Saved' : `Saved: ${this.filepath}`, 2000);
+        this.emit('save', { filepath: this.filepath, content });
+        return true;
     } catch (err) {
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         this.setStatusMessage(`Save Error: ${(err as any).message}`);
+        return false;
+    }
+}
+
+/**
+ * Enters the encoding prompt, either to save in another encoding
+ * or to re-read the file from disk in one.
+ */
+function enterEncodingMode(this: CliEditor, action: 'reopen' | 'save'): void {
+    if (action === 'save' && this.guardReadOnly()) return;
+    this.mode = 'encoding';
+    this.encodingAction = action;
+    this.encodingQuery = '';
+    this.setStatusMessage('Encodings: utf-8, utf-8-bom, utf-16le, utf-16be (-bom), latin1', 0);
+}
+
+/**
+ * Changes the buffer's encoding (e.g. 'utf-16le', 'utf-8-bom') and saves it.
+ */
+async function saveWithEncoding(this: CliEditor, name: string): Promise<boolean> {
+    if (this.guardReadOnly()) return false;
+    const target = parseEncoding(name);
+    if (!target) {
+        this.setStatusMessage(`Unknown encoding: ${name}`);
+        return false;
+    }
+    if (!canEncode(this.document.getText(), target.encoding)) {
+        this.setStatusMessage(`Cannot save as ${formatEncoding(target.encoding, false)}: some characters cannot be represented`);
+        return false;
+    }
+    this.encoding = target.encoding;
+    this.bom = target.bom;
+    this.isDirty = true;
+    return this.saveFile();
+}
+
+/**
+ * Re-reads the file from disk, decoding it with the given encoding
+ * (for files whose encoding was detected wrongly). Refuses to discard unsaved changes.
+ */
+async function reopenWithEncoding(this: CliEditor, name: string): Promise<void> {
+    const target = parseEncoding(name);
+    if (!target) {
+        this.setStatusMessage(`Unknown encoding: ${name}`);
+        return;
+    }
+    if (!this.filepath) {
+        this.setStatusMessage('No file to re-open');
+        return;
     }
+    if (this.isDirty) {
+        this.setStatusMessage('Save the buffer before re-opening it in another encoding');
+        return;
+    }
+
+    let bytes: Buffer;
+    try {
+        bytes = await fs.readFile(this.filepath);
+    } catch (err) {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        this.setStatusMessage(`Open Error: ${(err as any).message}`);
+        return;
+    }
+    if (this.isExiting) return;
+
+    // The BOM is taken from the file, not from the requested name
+    const decoded = decodeAs(bytes, target.encoding);
+    this.document.restore(new TextDocument(decoded.text).snapshot());
+    this.lineEnding = detectLineEnding(decoded.text);
+    this.encoding = decoded.encoding;
+    this.bom = decoded.bom;
+
+    this.cancelSelection();
+    this.adjustCursorPosition();
+    this.history.clear(); // Earlier states were decoded differently
+    this.saveState();
+    this.invalidateSyntaxCache();
+    this.emitContentChange();
+    this.setStatusMessage(`Re-opened as ${formatEncoding(this.encoding, this.bom)}`, 2000);
+    this.render();
 }
 
 export const ioMethods = {
     setDirty,
+    guardReadOnly,
+    runValidation,
+    getFileContent,
+    getSaveContent,
+    toggleLineEnding,
+    applySaveSettings,
     saveFile,
+    enterEncodingMode,
+    saveWithEncoding,
+    reopenWithEncoding,
 };
\ No newline at end of file
@@ -2,6 +2,9 @@
 
 import { CliEditor } from './editor.js';
 import { KEYS } from './constants.js';
+import { describeKey, EditorCommand, isTextInput } from './keymap.js';
+import { previousGraphemeOffset } from './unicode.js';
+import { EditKind } from './history.js';
 
 const PAIR_MAP: Record<string, string> = {
     '(': ')',
@@ -15,17 +18,30 @@ import type { KeypressEvent } from './vendor/keypress.js';
 export type TKeyHandlingMethods = {
     handleKeypressEvent: (ch: string, key: KeypressEvent) => void;
     handleEditKeys: (key: string) => boolean;
+    executeCommand: (command: EditorCommand) => boolean;
     handleSearchKeys: (key: string) => void;
     handleSearchConfirmKeys: (key: string) => void;
     handleGoToLineKeys: (key: string) => void;
+    handleOpenFileKeys: (key: string) => void;
+    handleEncodingKeys: (key: string) => void;
+    handleTimeTravelKeys: (key: string) => void;
     handleCtrlQ: () => void;
     handleCopy: () => Promise<void>;
     handleCharacterKey: (ch: string) => void;
+    handleClipboardEdit: (edit: () => Promise<void>) => Promise<void>;
     cutSelection: () => Promise<void>; 
     handleSave: () => Promise<void>; 
+    handleSaveAndQuit: () => Promise<void>; 
     handleAltArrows: (keyName: string) => void;
 };
 
+/**
+ * Removes the last character (grapheme cluster) of a prompt query on Backspace.
+ */
+function dropLastCharacter(query: string): string {
+    return query.slice(0, previousGraphemeOffset(query, query.length));
+}
+
 /**
  * Main router for standardized keypress events from the 'keypress' library.
  */
@@ -34,163 +50,36 @@ function handleKeypressEvent(this: CliEditor, ch: string, key: KeypressEvent): v
         return;
     }
     
-    let keyName: string | undefined = undefined;
+    // --- 1. Translate the event into a key descriptor ('a', 'ctrl+s', 'alt+up', ...) ---
+    const keyName = describeKey(ch, key);
+    if (!keyName) return;
     let edited = false; 
+    let kind: EditKind | undefined;
 
-    // --- 1. Handle the case where key is null/undefined (Printable characters) ---
-    if (!key) {
-        if (ch && ch.length === 1 && ch >= ' ' && ch <= '~') {
-            if (this.mode === 'search_find' || this.mode === 'search_replace') {
-                this.handleSearchKeys(ch);
-            } else if (this.mode === 'goto_line') {
-                this.handleGoToLineKeys(ch);
-            } else if (this.mode === 'edit') {
-                edited = this.handleEditKeys(ch);
-                if (edited) {
-                    this.saveState(); 
-                }
-            } else if (this.mode === 'search_confirm') {
-                this.handleSearchConfirmKeys(ch);
-            }
-            this.render();
-            return;
-        }
-        return; 
-    }
-    
-    // --- 2. From here, the 'key' object is guaranteed to exist (special keys or Ctrl/Meta) ---
-
-    // 2.1. Map Control sequences (Ctrl+Arrow for selection)
-    if (key.ctrl) {
-        if (key.name === 'up') keyName = KEYS.CTRL_ARROW_UP;
-        else if (key.name === 'down') keyName = KEYS.CTRL_ARROW_DOWN;
-        else if (key.name === 'left') keyName = KEYS.CTRL_ARROW_LEFT;
-        else if (key.name === 'right') keyName = KEYS.CTRL_ARROW_RIGHT;
-        else keyName = key.sequence; 
-    } else {
-        // 2.2. Map standard keys (Arrow, Home, End, Enter, Tab)
-        // Check Meta keys first!
-        if (key.meta && key.name === 'left') keyName = 'ALT_LEFT';
-        else if (key.meta && key.name === 'right') keyName = 'ALT_RIGHT';
-        else if (key.meta && key.name === 'up') keyName = KEYS.ALT_UP;
-        else if (key.meta && key.name === 'down') keyName = KEYS.ALT_DOWN;
-        
-        else if (key.name === 'up') keyName = KEYS.ARROW_UP;
-        else if (key.name === 'down') keyName = KEYS.ARROW_DOWN;
-        else if (key.name === 'left') keyName = KEYS.ARROW_LEFT;
-        else if (key.name === 'right') keyName = KEYS.ARROW_RIGHT;
-        else if (key.name === 'home') keyName = KEYS.HOME;
-        else if (key.name === 'end') keyName = KEYS.END;
-        else if (key.name === 'pageup') keyName = KEYS.PAGE_UP;
-        else if (key.name === 'pagedown') keyName = KEYS.PAGE_DOWN;
-        else if (key.name === 'delete') keyName = KEYS.DELETE;
-        else if (key.name === 'backspace') keyName = KEYS.BACKSPACE;
-        else if (key.name === 'return') keyName = KEYS.ENTER;
-        else if (key.name === 'tab') keyName = key.shift ? KEYS.SHIFT_TAB : KEYS.TAB;
-        // Handle Mouse Scroll events explicitly
-        else if (key.name === 'scrollup') keyName = 'SCROLL_UP';
-        else if (key.name === 'scrolldown') keyName = 'SCROLL_DOWN';
-        else keyName = key.sequence; 
-    }
-
-    // --- 3. Route according to Mode ---
+    // --- 2. Route according to Mode ---
     if (this.mode === 'search_find' || this.mode === 'search_replace') {
-        this.handleSearchKeys(keyName || ch);
+        this.handleSearchKeys(keyName);
     } else if (this.mode === 'search_confirm') {
-        this.handleSearchConfirmKeys(keyName || ch);
+        this.handleSearchConfirmKeys(keyName);
     } else if (this.mode === 'goto_line') {
-        this.handleGoToLineKeys(keyName || ch);
+        this.handleGoToLineKeys(keyName);
+    } else if (this.mode === 'open_file') {
+        this.handleOpenFileKeys(keyName);
+    } else if (this.mode === 'encoding') {
+        this.handleEncodingKeys(keyName);
+    } else if (this.mode === 'time_travel') {
+        this.handleTimeTravelKeys(keyName);
+    } else if (this.mode === 'undo_tree') {
+        this.handleUndoTreeKeys(keyName);
     } else {
-        // 4. Handle selection keys (Ctrl+Arrow) - Navigation
-        switch (keyName) {
-            case KEYS.CTRL_ARROW_UP:
-            case KEYS.CTRL_ARROW_DOWN:
-            case KEYS.CTRL_ARROW_LEFT:
-            case KEYS.CTRL_ARROW_RIGHT:
-                this.startOrUpdateSelection();
-                if (keyName === KEYS.CTRL_ARROW_UP) this.moveCursorVisually(-1);
-                else if (keyName === KEYS.CTRL_ARROW_DOWN) this.moveCursorVisually(1);
-                else if (keyName === KEYS.CTRL_ARROW_LEFT) this.moveCursorLogically(-1);
-                else if (keyName === KEYS.CTRL_ARROW_RIGHT) this.moveCursorLogically(1);
-                this.render();
-                return;
-        }
-
-        // 5. Handle all other command/edit keys
-        if (keyName === 'SCROLL_UP') {
-            const scrollAmount = 3;
-            this.rowOffset = Math.max(0, this.rowOffset - scrollAmount);
-            
-            // Adjust cursor if it falls out of view (below the viewport)
-            // Actually if we scroll UP, the viewport moves UP. The cursor might be BELOW the viewport.
-            // scroll UP means viewing lines ABOVE. Viewport index decreases.
-            // Cursor (if previously in view) might now be >= rowOffset + screenRows.
-            
-            // We need to ensure cursor is within [rowOffset, rowOffset + screenRows - 1]
-            // But verify after setting rowOffset.
-            const currentVisualRow = this.findCurrentVisualRowIndex();
-            const bottomEdge = this.rowOffset + this.screenRows - 1;
-            
-            if (currentVisualRow > bottomEdge) {
-                 // Move cursor to bottom edge
-                 // Need logic to move cursor to visual row 'bottomEdge'
-                 // Use getLogicalFromVisual
-                 const targetPos = this.getLogicalFromVisual(bottomEdge);
-                 this.cursorY = targetPos.logicalY;
-                 // Set to start of that chunk
-                 const contentWidth = Math.max(1, this.screenCols - this.gutterWidth);
-                 this.cursorX = targetPos.visualYOffset * contentWidth;
-            } else if (currentVisualRow < this.rowOffset) {
-                 // Should not happen when scrolling up (moving viewport up), unless cursor was already above?
-                 // If we scroll up, rowOffset decreases. Current row stays same. 
-                 // So current row > new rowOffset.
-                 // It might be > bottomEdge.
-            }
-            // However, to be safe against 'scroll' method resetting it:
-            // The 'scroll' method checks:
-            // if (currentVisualRow < this.rowOffset) -> this.rowOffset = currentVisualRow
-            // if (currentVisualRow >= this.rowOffset + this.screenRows) -> this.rowOffset = ...
-            
-            // So we MUST move cursor inside the new viewport.
-            
-            if (currentVisualRow > bottomEdge) {
-                const targetPos = this.getLogicalFromVisual(bottomEdge);
-                this.cursorY = targetPos.logicalY;
-                const contentWidth = Math.max(1, this.screenCols - this.gutterWidth);
-                this.cursorX = targetPos.visualYOffset * contentWidth;
-            }
-
-        } else if (keyName === 'SCROLL_DOWN') {
-            const scrollAmount = 3;
-            // Need total visual rows to clamp maxOffset.
-            // Calculating total visual rows is O(N).
-            // Let's do a safe scroll? 
-            // Or just allow scrolling until end?
-            // Let's calculate total visual rows for now (performance cost accepted for correct scrolling).
-            let totalVisualRows = 0;
-            for(let i=0; i<this.lines.length; i++) totalVisualRows += this.getLineVisualHeight(i);
-
-            const maxOffset = Math.max(0, totalVisualRows - this.screenRows);
-            this.rowOffset = Math.min(maxOffset, this.rowOffset + scrollAmount);
-            
-            // Scroll DOWN means viewport index increases.
-            // Cursor might be ABOVE the new viewport (currentVisualRow < rowOffset).
-            const currentVisualRow = this.findCurrentVisualRowIndex();
-            
-            if (currentVisualRow < this.rowOffset) {
-                const targetPos = this.getLogicalFromVisual(this.rowOffset);
-                this.cursorY = targetPos.logicalY;
-                const contentWidth = Math.max(1, this.screenCols - this.gutterWidth);
-                this.cursorX = targetPos.visualYOffset * contentWidth;
-            }
-        } else {
-            edited = this.handleEditKeys(keyName || ch);
-        }
+        // 3. Commands from the active keymap, or character input
+        kind = getEditKind(this.keymap.get(keyName), keyName);
+        edited = this.handleEditKeys(keyName);
     }
 
-    // 6. Update State and Render
-    if (edited) {
-        this.saveState(); // <-- Called only when typing, deleting, etc.
+    // 4. Update State and Render
+    if (edited && !this.readOnly && !this.isLargeFile()) {
+        this.saveState(kind); // <-- Called only when typing, deleting, etc.
     }
 
     if (!this.isExiting) {
@@ -198,24 +87,59 @@ function handleKeypressEvent(this: CliEditor, ch: string, key: KeypressEvent): v
     }
 }
 
+/**
+ * Kind of edit a typing or deleting key makes, for grouping undo steps.
+ * Line commands pass their own kind when they close their step; other edits
+ * (paste, replace, ...) always get a step of their own.
+ */
+function getEditKind(command: EditorCommand | undefined, key: string): EditKind | undefined {
+    if (command === 'deleteBackward' || command === 'deleteForward') return 'delete';
+    if (command === 'newLine' || (!command && isTextInput(key))) return 'insert';
+    return undefined;
+}
+
 function handleAltArrows(this: CliEditor, keyName: string): void {
      this.clearSearchResults(); // Clear highlights on smart navigation
-     if (keyName === 'ALT_LEFT') this.moveCursorByWord('left');
-     else if (keyName === 'ALT_RIGHT') this.moveCursorByWord('right');
+     if (keyName === KEYS.ALT_LEFT) this.moveCursorByWord('left');
+     else if (keyName === KEYS.ALT_RIGHT) this.moveCursorByWord('right');
 }
 
 /**
- * Handles all command keys in 'edit' mode.
+ * Handles a key in 'edit' mode: looks the key up in the active keymap
+ * and falls back to inserting printable characters.
  * Returns true if content was modified.
  */
 function handleEditKeys(this: CliEditor, key: string): boolean {
-    // Cancel selection on normal navigation
-    const isNavigation = [
-        KEYS.ARROW_UP, KEYS.ARROW_DOWN, KEYS.ARROW_LEFT, KEYS.ARROW_RIGHT,
-        KEYS.HOME, KEYS.END, KEYS.PAGE_UP, KEYS.PAGE_DOWN
-    ].includes(key);
+    const command = this.keymap.get(key);
+    // The hex view handles navigation and editing itself
+    if (this.hexView && this.handleHexKeys(key, command)) {
+        return false;
+    }
+    if (command) {
+        return this.executeCommand(command);
+    }
+
+    // Handle typed text (any printable character, or a chunk of IME input)
+    if (isTextInput(key)) {
+        this.clearSearchResults();
+        this.handleCharacterKey(key);
+        return true; 
+    }
+    return false; 
+}
+
+const NAVIGATION_COMMANDS: EditorCommand[] = [
+    'cursorUp', 'cursorDown', 'cursorLeft', 'cursorRight',
+    'lineStart', 'lineEnd', 'pageUp', 'pageDown',
+];
 
-    if (isNavigation) {
+/**
+ * Executes a named editor command (see keymap.ts).
+ * Returns true if content was modified and history should be saved.
+ */
+function executeCommand(this: CliEditor, command: EditorCommand): boolean {
+    // Cancel selection on normal navigation
+    if (NAVIGATION_COMMANDS.includes(command)) {
         this.cancelSelection();
         this.clearSearchResults(); // Clear highlights on navigation
         if (this.isMessageCustom) {
@@ -223,53 +147,127 @@ function handleEditKeys(this: CliEditor, key: string): boolean {
         }
     }
     
-    switch (key) {
+    switch (command) {
         // --- Exit / Save ---
-        case KEYS.CTRL_Q:
+        case 'quit':
             this.handleCtrlQ();
             return false;
-        case KEYS.CTRL_S:
+        case 'save':
             this.handleSave();
             return false;
-        case KEYS.CTRL_C:
+        case 'saveAndQuit':
+            this.handleSaveAndQuit();
+            return false;
+        case 'toggleLineEnding':
+            this.toggleLineEnding();
+            return false;
+        case 'saveWithEncoding':
+            this.enterEncodingMode('save');
+            return false;
+        case 'reopenWithEncoding':
+            this.enterEncodingMode('reopen');
+            return false;
+        case 'toggleHexView':
+            this.toggleHexView();
+            return false;
+        case 'copy':
             this.handleCopy();
             return false;
+
+        // --- Buffers ---
+        case 'openFile':
+            this.enterOpenFileMode();
+            return false;
+        case 'nextBuffer':
+            this.cycleBuffer(1);
+            return false;
+        case 'previousBuffer':
+            this.cycleBuffer(-1);
+            return false;
+        case 'listBuffers':
+            this.listBuffers();
+            return false;
+        case 'closeBuffer':
+            this.closeBuffer();
+            return false;
+
+        // --- Panes ---
+        case 'splitHorizontal':
+            this.splitPane('horizontal');
+            return false;
+        case 'splitVertical':
+            this.splitPane('vertical');
+            return false;
+        case 'closePane':
+            this.closePane();
+            return false;
+        case 'nextPane':
+            this.focusPane(1);
+            return false;
+        case 'previousPane':
+            this.focusPane(-1);
+            return false;
         
         // --- Navigation (Non-Selection) ---
-        case KEYS.ARROW_UP:
+        case 'cursorUp':
             this.moveCursorVisually(-1);
             return false;
-        case KEYS.ARROW_DOWN:
+        case 'cursorDown':
             this.moveCursorVisually(1);
             return false;
-        case KEYS.ARROW_LEFT:
+        case 'cursorLeft':
             this.moveCursorLogically(-1);
             return false;
-        case KEYS.ARROW_RIGHT:
+        case 'cursorRight':
             this.moveCursorLogically(1);
             return false;
-        case KEYS.HOME:
+        case 'lineStart':
             this.cursorX = this.findVisualRowStart();
             return false;
-        case KEYS.END:
+        case 'lineEnd':
             this.cursorX = this.findVisualRowEnd();
             return false;
-        case KEYS.PAGE_UP:
+        case 'pageUp':
             this.moveCursorVisually(-this.screenRows);
             return false;
-        case KEYS.PAGE_DOWN:
+        case 'pageDown':
             this.moveCursorVisually(this.screenRows);
             return false;
+        case 'scrollUp':
+            this.scrollViewport(-3);
+            return false;
+        case 'scrollDown':
+            this.scrollViewport(3);
+            return false;
+
+        // --- Selection (Ctrl+Arrow) ---
+        case 'selectUp':
+            this.startOrUpdateSelection();
+            this.moveCursorVisually(-1);
+            return false;
+        case 'selectDown':
+            this.startOrUpdateSelection();
+            this.moveCursorVisually(1);
+            return false;
+        case 'selectLeft':
+            this.startOrUpdateSelection();
+            this.moveCursorLogically(-1);
+            return false;
+        case 'selectRight':
+            this.startOrUpdateSelection();
+            this.moveCursorLogically(1);
+            return false;
 
         // --- Editing ---
-        case KEYS.ENTER:
+        case 'newLine':
             this.clearSearchResults();
             this.insertNewLine();
             return true;
-        case KEYS.BACKSPACE: {
+        case 'deleteBackward': {
+            if (this.guardReadOnly()) return false;
             this.clearSearchResults();
             // Handle auto-pair deletion
-            const line = this.lines[this.cursorY] || '';
+            const line = this.document.getLine(this.cursorY);
             const charBefore = line[this.cursorX - 1];
             const charAfter = line[this.cursorX];
             if (
@@ -278,105 +276,101 @@ function handleEditKeys(this: CliEditor, key: string): boolean {
                 PAIR_MAP[charBefore] === charAfter
             ) {
                 // Delete both characters of the pair
-                this.lines[this.cursorY] = line.slice(0, this.cursorX - 1) + line.slice(this.cursorX + 1);
+                this.document.delete({ x: this.cursorX - 1, y: this.cursorY }, { x: this.cursorX + 1, y: this.cursorY });
                 this.cursorX--; // Move cursor back
-                this.setDirty();
+                this.setDirty(this.cursorY, this.cursorY);
             } else {
                 if (this.selectionAnchor) this.deleteSelectedText();
                 else this.deleteBackward();
             }
             return true;
         }
-        case KEYS.DELETE:
+        case 'deleteForward':
             this.clearSearchResults();
             if (this.selectionAnchor) this.deleteSelectedText();
             else this.deleteForward();
             return true;
-        case KEYS.TAB:
+        case 'indent':
             this.clearSearchResults();
             if (this.selectionAnchor) {
                 this.indentSelection();
-                return false; // Manually saved state
+                return false; // The command closes its own undo step
             } else {
-                this.insertSoftTab();
+                this.insertTab();
                 return true;
             }
-        case KEYS.SHIFT_TAB:
+        case 'outdent':
             this.clearSearchResults();
             this.outdentSelection();
-            return false; // Manually saved state
-        case KEYS.ALT_UP:
+            return false; // The command closes its own undo step
+        case 'moveLinesUp':
             this.clearSearchResults();
             this.moveLines(-1);
-            return false; // Manually saved state
-        case KEYS.ALT_DOWN:
+            return false; // The command closes its own undo step
+        case 'moveLinesDown':
             this.clearSearchResults();
             this.moveLines(1);
-            return false; // Manually saved state
-        case KEYS.CTRL_D:
+            return false; // The command closes its own undo step
+        case 'duplicate':
             this.clearSearchResults();
             this.duplicateLineOrSelection();
-            return false; // Manually saved state
+            return false; // The command closes its own undo step
 
         // --- Search & History ---
-        case KEYS.CTRL_W:
+        case 'find':
             this.enterFindMode();
             return false;
-        case KEYS.CTRL_R:
+        case 'replace':
             this.enterReplaceMode();
             return false;
-        case KEYS.CTRL_L:
+        case 'goToLine':
             this.enterGoToLineMode();
             return false;
-        case KEYS.CTRL_G:
+        case 'findNext':
             this.findNext();
             return false;
         
         // --- Smart Navigation ---
-        case 'ALT_LEFT':
-            this.moveCursorByWord('left');
-            return false;
-        case 'ALT_RIGHT':
-            this.moveCursorByWord('right');
+        case 'wordLeft':
+        case 'wordRight':
+            this.moveCursorByWord(command === 'wordLeft' ? 'left' : 'right');
             return false;
-        case KEYS.CTRL_M: // Or any key for Bracket Match. Ctrl+M is technically Enter in some terms but if available...
-            // Let's use Ctrl+B (Bracket) if not taken? Ctrl+B is often bold, but here it's CLI.
-            // Or just check if key is match bracket key.
-            // Let's try to map a specific key or use Meta.
-            // For now, let's use Ctrl+B?
+        case 'matchBracket':
             this.matchBracket();
             return false;
             
         // After undo/redo, we MUST recalculate visual rows
-        case KEYS.CTRL_Z:
+        case 'undo':
             this.undo();
             return false; 
-        case KEYS.CTRL_Y:
+        case 'redo':
             this.redo();
             return false; 
+        case 'previousUndoBranch':
+        case 'nextUndoBranch':
+            this.switchUndoBranch(command === 'nextUndoBranch' ? 1 : -1);
+            return false;
+        case 'timeTravel':
+            this.startTimeTravel();
+            return false;
+        case 'undoTree':
+            this.openUndoTree();
+            return false;
 
         // --- Clipboard ---
-        case KEYS.CTRL_K: // Cut Line (Traditional)
-            this.cutLine();
-            return true;
-        case KEYS.CTRL_U: // Paste Line (Traditional)
-            this.pasteLine();
-            return true;
-        case KEYS.CTRL_X: // Cut Selection
-            this.cutSelection(); 
-            return true;
-        case KEYS.CTRL_V: // Paste Selection
-            this.pasteSelection();
-            return true;
-
-        // Handle Printable Characters
-        default:
-            if (key.length === 1 && key >= ' ' && key <= '~') {
-                this.clearSearchResults();
-                this.handleCharacterKey(key);
-                return true; 
-            }
-            return false; 
+        // The edit happens once the clipboard answers and closes its own undo step
+        case 'cutLine': // Cut Line (Traditional)
+            this.handleClipboardEdit(() => this.cutLine());
+            return false;
+        case 'pasteLine': // Paste Line (Traditional)
+            this.handleClipboardEdit(() => this.pasteLine());
+            return false;
+        case 'cut': // Cut Selection
+            this.handleClipboardEdit(() => this.cutSelection());
+            return false;
+        case 'paste': // Paste Selection
+            this.handleClipboardEdit(() => this.pasteSelection());
+            return false;
     }
 }
 
@@ -384,7 +378,8 @@ function handleEditKeys(this: CliEditor, key: string): boolean {
  * Handles insertion of a character, deleting selection first if it exists.
  */
 function handleCharacterKey(this: CliEditor, ch: string): void {
-    const line = this.lines[this.cursorY] || '';
+    if (this.guardReadOnly()) return;
+    const line = this.document.getLine(this.cursorY);
     const charAfter = line[this.cursorX];
 
     // If user types a closing character and it's what we expect, just move the cursor.
@@ -405,22 +400,24 @@ function handleCharacterKey(this: CliEditor, ch: string): void {
             this.deleteSelectedText();
         }
         this.insertCharacter(ch);
-        this.setDirty();
     }
 }
 
 /**
- * Handles Ctrl+Q (Quit) sequence.
+ * Handles Ctrl+Q (Quit) sequence. Warns once if any open buffer has unsaved changes.
  */
 function handleCtrlQ(this: CliEditor): void {
-    if (this.isDirty && !this.quitConfirm) {
+    const dirty = this.getOtherDirtyBuffers();
+    if (this.isDirty) dirty.unshift(this.getBufferName(this.buffers[this.activeBufferIndex]));
+    if (dirty.length > 0 && !this.quitConfirm) {
         this.quitConfirm = true;
-        this.setStatusMessage('Warning: Unsaved changes! Press Ctrl+Q again to quit.');
+        const where = this.buffers.length > 1 ? ` in ${dirty.join(', ')}` : '';
+        this.setStatusMessage(`Warning: Unsaved changes${where}! Press Ctrl+Q again to quit.`);
         setTimeout(() => { this.quitConfirm = false; }, 3000);
         return;
     }
     this.isExiting = true; 
-    this.resolvePromise?.({ saved: false, content: this.lines.join('\n') });
+    this.resolvePromise?.(this.getResult());
 }
 
 /**
@@ -433,12 +430,25 @@ async function handleCopy(this: CliEditor): Promise<void> {
         this.setStatusMessage('Selection copied!', 1000);
     } else {
         // Copy entire file content if nothing is selected (clean copy)
-        textToCopy = this.lines.join('\n');
+        textToCopy = this.document.getText();
         this.setStatusMessage('Copied all text!', 1000);
     }
     await this.setClipboard(textToCopy);
 }
 
+/**
+ * Waits for a cut or paste (which edits once the system clipboard answers)
+ * and redraws with its result.
+ */
+async function handleClipboardEdit(this: CliEditor, edit: () => Promise<void>): Promise<void> {
+    try {
+        await edit();
+    } catch {
+        // Clipboard errors are already shown in the status bar
+    }
+    if (!this.isExiting) this.render();
+}
+
 /**
  * Handles synchronous call for cutting selection (used by Ctrl+X).
  */
@@ -447,15 +457,33 @@ async function cutSelection(this: CliEditor): Promise<void> {
 }
 
 /**
- * Helper function to handle the final save and exit sequence (used by Ctrl+S).
+ * Saves without leaving the editor (checkpoint save, used by Ctrl+O).
  */
 async function handleSave(this: CliEditor): Promise<void> {
-    await this.saveFile(); // Save file (sets isDirty=false)
+    if (this.guardReadOnly()) return;
+    await this.saveFile(); // Sets isDirty=false and clears the swap file
+}
+
+/**
+ * Helper function to handle the final save and exit sequence (used by Ctrl+S).
+ */
+async function handleSaveAndQuit(this: CliEditor): Promise<void> {
+    if (this.guardReadOnly()) return;
+    const saved = await this.saveFile(); // Save file (sets isDirty=false)
+    if (!saved) return; // Validation or write failed: stay open so the user can fix it
+
+    // Don't silently drop edits in other buffers
+    const otherDirty = this.getOtherDirtyBuffers();
+    if (otherDirty.length > 0) {
+        this.setStatusMessage(`Saved. Unsaved changes in: ${otherDirty.join(', ')}`, 5000);
+        this.render();
+        return;
+    }
     
     // Only resolve if not already exiting 
     if (!this.isExiting) { 
         this.isExiting = true;
-        this.resolvePromise?.({ saved: true, content: this.lines.join('\n') });
+        this.resolvePromise?.(this.getResult());
     }
 }
 
@@ -500,13 +528,13 @@ function handleSearchKeys(this: CliEditor, key: string): void {
             break;
         case KEYS.BACKSPACE:
             if (this.mode === 'search_find') {
-                this.searchQuery = this.searchQuery.slice(0, -1);
+                this.searchQuery = dropLastCharacter(this.searchQuery);
             } else {
-                this.replaceQuery = this.replaceQuery!.slice(0, -1);
+                this.replaceQuery = dropLastCharacter(this.replaceQuery!);
             }
             break;
         default:
-            if (key.length === 1 && key >= ' ' && key <= '~') {
+            if (isTextInput(key)) {
                 if (this.mode === 'search_find') {
                     this.searchQuery += key;
                 } else {
@@ -589,17 +617,123 @@ function handleGoToLineKeys(this: CliEditor, key: string): void {
     }
 }
 
+/**
+ * Handles keypresses during the 'Open File' prompt.
+ */
+function handleOpenFileKeys(this: CliEditor, key: string): void {
+    switch (key) {
+        case KEYS.ENTER: {
+            const filepath = this.openFileQuery.trim();
+            this.mode = 'edit';
+            this.openFileQuery = '';
+            if (filepath) {
+                this.openBuffer(filepath);
+            } else {
+                this.setStatusMessage('Cancelled');
+            }
+            break;
+        }
+        case KEYS.ESCAPE:
+        case KEYS.CTRL_C:
+        case KEYS.CTRL_Q:
+            this.mode = 'edit';
+            this.openFileQuery = '';
+            this.setStatusMessage('Cancelled');
+            break;
+        case KEYS.BACKSPACE:
+            this.openFileQuery = dropLastCharacter(this.openFileQuery);
+            break;
+        default:
+            if (isTextInput(key)) {
+                this.openFileQuery += key;
+            }
+    }
+}
+
+/**
+ * Handles keypresses during the encoding prompt (save with / re-open with encoding).
+ */
+function handleEncodingKeys(this: CliEditor, key: string): void {
+    switch (key) {
+        case KEYS.ENTER: {
+            const name = this.encodingQuery.trim();
+            this.mode = 'edit';
+            this.encodingQuery = '';
+            if (!name) {
+                this.setStatusMessage('Cancelled');
+            } else if (this.encodingAction === 'save') {
+                this.saveWithEncoding(name);
+            } else {
+                this.reopenWithEncoding(name);
+            }
+            break;
+        }
+        case KEYS.ESCAPE:
+        case KEYS.CTRL_C:
+        case KEYS.CTRL_Q:
+            this.mode = 'edit';
+            this.encodingQuery = '';
+            this.setStatusMessage('Cancelled');
+            break;
+        case KEYS.BACKSPACE:
+            this.encodingQuery = dropLastCharacter(this.encodingQuery);
+            break;
+        default:
+            if (isTextInput(key)) {
+                this.encodingQuery += key;
+            }
+    }
+}
+
+/**
+ * Handles keypresses during the time travel prompt ('Go back: 5m').
+ */
+function handleTimeTravelKeys(this: CliEditor, key: string): void {
+    switch (key) {
+        case KEYS.ENTER: {
+            const duration = this.timeTravelQuery.trim();
+            this.mode = 'edit';
+            this.timeTravelQuery = '';
+            if (duration) {
+                this.travelBack(duration);
+            } else {
+                this.setStatusMessage('Cancelled');
+            }
+            break;
+        }
+        case KEYS.ESCAPE:
+        case KEYS.CTRL_C:
+        case KEYS.CTRL_Q:
+            this.mode = 'edit';
+            this.timeTravelQuery = '';
+            this.setStatusMessage('Cancelled');
+            break;
+        case KEYS.BACKSPACE:
+            this.timeTravelQuery = dropLastCharacter(this.timeTravelQuery);
+            break;
+        default:
+            if (isTextInput(key)) {
+                this.timeTravelQuery += key;
+            }
+    }
+}
 
 export const keyHandlingMethods: TKeyHandlingMethods = {
     handleKeypressEvent,
     handleEditKeys,
+    executeCommand,
     handleSearchKeys,
     handleSearchConfirmKeys,
     handleGoToLineKeys,
+    handleOpenFileKeys,
+    handleEncodingKeys,
+    handleTimeTravelKeys,
     handleCtrlQ,
     handleCopy,
     handleCharacterKey,
+    handleClipboardEdit,
     cutSelection,
     handleSave,
+    handleSaveAndQuit,
     handleAltArrows,
 };
\ No newline at end of file
@@ -0,0 +1,106 @@
+// src/editor.largefile.ts
+
+import { CliEditor } from './editor.js';
+import { EditorBuffer } from './editor.buffers.js';
+import { detectLineEnding } from './document.js';
+import { LargeFileDocument } from './large_file.js';
+import { nextGraphemeOffset } from './unicode.js';
+
+/**
+ * Methods for buffers holding a LargeFileDocument (files above `largeFileThreshold`).
+ * Such buffers are read-only, their lines are not wrapped, and Find scans the
+ * file on disk instead of the loaded lines.
+ */
+
+// Minimum time between progress redraws while indexing or searching
+const PROGRESS_INTERVAL = 100;
+
+/**
+ * True if the active buffer is a lazily loaded large file.
+ */
+function isLargeFile(this: CliEditor): boolean {
+    return this.document instanceof LargeFileDocument;
+}
+
+/**
+ * Puts a large file document into a buffer (created empty by addBuffer) and
+ * starts indexing it. The status bar shows the progress while the buffer is visible.
+ */
+function attachLargeFile(this: CliEditor, buffer: EditorBuffer, document: LargeFileDocument): void {
+    buffer.document = document;
+    buffer.lineEnding = detectLineEnding(document.sample);
+    buffer.encoding = document.encoding;
+    buffer.bom = document.bom;
+    Object.assign(buffer, this.resolveIndentation(document.sample, buffer.editorConfig));
+    if (this.buffers[this.activeBufferIndex] === buffer) {
+        this.loadBuffer(buffer);
+    }
+
+    let lastRender = 0;
+    document.buildIndex(() => {
+        if (this.isExiting || !this.resolvePromise) return;
+        const now = Date.now();
+        if (!document.indexed && now - lastRender < PROGRESS_INTERVAL) return;
+        lastRender = now;
+        if (document.indexed) {
+            this.setStatusMessage(`Indexed ${document.lineCount} lines`, 2000);
+        }
+        this.render();
+    }).catch((err: Error) => {
+        this.setStatusMessage(`Index Error: ${err.message}`);
+    });
+}
+
+/**
+ * Closes the files of all large file buffers (on exit).
+ */
+function closeLargeFiles(this: CliEditor): void {
+    for (const buffer of this.buffers) {
+        if (buffer.document instanceof LargeFileDocument) buffer.document.close();
+    }
+}
+
+/**
+ * Find Next for large files: searches the file from the cursor (after the
+ * current match) and wraps around to the top. Only the indexed part is searched.
+ */
+async function findNextInLargeFile(this: CliEditor): Promise<void> {
+    const document = this.document as LargeFileDocument;
+    const query = this.searchQuery;
+    const x = this.searchResultIndex === -1
+        ? this.cursorX
+        : nextGraphemeOffset(document.getLine(this.cursorY), this.cursorX);
+    const from = { x, y: this.cursorY };
+    this.mode = 'edit';
+
+    let lastRender = 0;
+    const match = await document.find(query, from, fraction => {
+        const now = Date.now();
+        if (now - lastRender < PROGRESS_INTERVAL) return;
+        lastRender = now;
+        this.setStatusMessage(`Searching ${Math.floor(fraction * 100)}%`, 0);
+    });
+    if (this.isExiting || this.document !== document) return;
+
+    this.clearSearchResults();
+    if (!match) {
+        this.setStatusMessage(document.indexed ? 'No results found' : 'No results found (file is still being indexed)');
+        this.render();
+        return;
+    }
+    this.searchResults = [match];
+    this.searchResultMap.set(match.y, [{ start: match.x, end: match.x + query.length }]);
+    this.searchResultIndex = 0;
+    this.jumpToResult(match);
+
+    const wrapped = match.y < from.y || (match.y === from.y && match.x < from.x);
+    this.setStatusMessage(wrapped ? 'End of file reached. Starting from top.' : `Found "${query}"`, 2000);
+    this.render();
+}
+
+export const largeFileMethods = {
+    isLargeFile,
+    attachLargeFile,
+    closeLargeFiles,
+    findNextInLargeFile,
+};
@@ -1,6 +1,7 @@
 // src/editor.navigation.ts
 
 import { CliEditor } from './editor.js';
+import { nextGraphemeOffset, previousGraphemeOffset } from './unicode.js';
 
 /**
  * Methods related to cursor movement and viewport scrolling.
@@ -8,41 +9,31 @@ import { CliEditor } from './editor.js';
 
 /**
  * Finds the index of the visual row that currently contains the cursor.
- * Uses math to calculate position based on line lengths and screen width.
+ * Sums the wrapped heights of the lines above it (cached per chunk, see getRowMeasure).
  */
 function findCurrentVisualRowIndex(this: CliEditor): number {
-    const contentWidth = Math.max(1, this.screenCols - this.gutterWidth);
-    
-    let visualRowIndex = 0;
-    
-    // Sum visual height of all lines before current cursorY
-    for (let i = 0; i < this.cursorY; i++) {
-        visualRowIndex += this.getLineVisualHeight(i);
-    }
-    
-    // Add visual offset within current line
-    // e.g. if cursorX is 250 and width is 100, we are on the 3rd row (index 2) of this line.
-    visualRowIndex += Math.floor(this.cursorX / contentWidth);
-    
-    return visualRowIndex;
+    if (this.isLargeFile()) return this.cursorY; // Unwrapped
+    // Rows of all lines before cursorY, plus the row of the cursor within its line
+    return this.document.measureBefore(this.cursorY, this.getRowMeasure())
+        + this.getVisualPosition(this.cursorY, this.cursorX).row;
 }
 
 /**
- * Moves the cursor one position left or right (logically, wrapping lines).
+ * Moves the cursor one character (grapheme cluster) left or right (logically, wrapping lines).
  */
 function moveCursorLogically(this: CliEditor, dx: number): void {
     if (dx === -1) {
       if (this.cursorX > 0) {
-        this.cursorX--;
+        this.cursorX = previousGraphemeOffset(this.document.getLine(this.cursorY), this.cursorX);
       } else if (this.cursorY > 0) {
         this.cursorY--;
-        this.cursorX = this.lines[this.cursorY].length;
+        this.cursorX = this.document.getLineLength(this.cursorY);
       }
     } else if (dx === 1) {
-      const lineLength = this.lines[this.cursorY].length;
+      const lineLength = this.document.getLineLength(this.cursorY);
       if (this.cursorX < lineLength) {
-        this.cursorX++;
-      } else if (this.cursorY < this.lines.length - 1) {
+        this.cursorX = nextGraphemeOffset(this.document.getLine(this.cursorY), this.cursorX);
+      } else if (this.cursorY < this.document.lineCount - 1) {
         this.cursorY++;
         this.cursorX = 0;
       }
@@ -68,54 +59,37 @@ function moveCursorVisually(this: CliEditor, dy: number): void {
     const targetPos = this.getLogicalFromVisual(targetVisualRow);
     
     // If we went past the end, clamp to end
-    if (targetPos.logicalY > this.lines.length - 1) {
-        this.cursorY = this.lines.length - 1;
-        this.cursorX = this.lines[this.cursorY].length;
+    if (targetPos.logicalY > this.document.lineCount - 1) {
+        this.cursorY = this.document.lineCount - 1;
+        this.cursorX = this.document.getLineLength(this.cursorY);
         return;
     }
 
-    this.cursorY = targetPos.logicalY;
-    
-    const contentWidth = Math.max(1, this.screenCols - this.gutterWidth);
-    
     // We want to maintain visual X (column on screen)
-    // Current visual X offset in the row
-    const currentVisualXOffset = this.cursorX % contentWidth;
-    
-    // Target logical X start for that visual row chunk
-    const targetChunkStart = targetPos.visualYOffset * contentWidth;
-    
-    // New cursor X
-    this.cursorX = targetChunkStart + currentVisualXOffset;
-    
-    // Clamp to line length
-    const lineLength = this.lines[this.cursorY].length;
-    if (this.cursorX > lineLength) {
-        this.cursorX = lineLength;
-    }
+    const currentVisualCol = this.getVisualPosition(this.cursorY, this.cursorX).col;
+
+    this.cursorY = targetPos.logicalY;
+    this.cursorX = this.getOffsetAtVisual(this.cursorY, targetPos.visualYOffset, currentVisualCol);
 }
 
 /**
  * Finds the start of the current visual line (Home key behavior).
  */
 function findVisualRowStart(this: CliEditor): number {
-    const contentWidth = Math.max(1, this.screenCols - this.gutterWidth);
-    const chunkIndex = Math.floor(this.cursorX / contentWidth);
-    return chunkIndex * contentWidth;
+    const rowStarts = this.getLineLayout(this.cursorY);
+    const { row } = this.getVisualPosition(this.cursorY, this.cursorX);
+    return row < rowStarts.length ? rowStarts[row] : this.cursorX;
 }
 
 /**
  * Finds the end of the current visual line (End key behavior).
  */
 function findVisualRowEnd(this: CliEditor): number {
-    const contentWidth = Math.max(1, this.screenCols - this.gutterWidth);
-    const chunkIndex = Math.floor(this.cursorX / contentWidth);
-    const lineLength = this.lines[this.cursorY].length;
-    
-    const chunkStart = chunkIndex * contentWidth;
-    const chunkEnd = chunkStart + contentWidth;
-    
-    return Math.min(lineLength, chunkEnd);
+    const line = this.document.getLine(this.cursorY);
+    const rowStarts = this.getLineLayout(this.cursorY);
+    const { row } = this.getVisualPosition(this.cursorY, this.cursorX);
+    if (row + 1 >= rowStarts.length) return line.length;
+    return previousGraphemeOffset(line, rowStarts[row + 1]);
 }
 
 /**
@@ -124,11 +98,11 @@ function findVisualRowEnd(this: CliEditor): number {
 function adjustCursorPosition(this: CliEditor): void {
     // Clamp Y
     if (this.cursorY < 0) this.cursorY = 0;
-    if (this.cursorY >= this.lines.length) {
-      this.cursorY = Math.max(0, this.lines.length - 1);
+    if (this.cursorY >= this.document.lineCount) {
+      this.cursorY = Math.max(0, this.document.lineCount - 1);
     }
     // Clamp X
-    const lineLength = this.lines[this.cursorY]?.length || 0;
+    const lineLength = this.document.getLineLength(this.cursorY);
     if (this.cursorX < 0) this.cursorX = 0;
     if (this.cursorX > lineLength) {
       this.cursorX = lineLength;
@@ -151,6 +125,34 @@ function scroll(this: CliEditor): void {
     }
 }
 
+/**
+ * Scrolls the viewport by a number of visual rows (mouse wheel).
+ * The cursor is moved along when it would leave the visible area,
+ * otherwise scroll() would snap the viewport back on the next render.
+ */
+function scrollViewport(this: CliEditor, amount: number): void {
+    // Total visual rows are needed to clamp the offset
+    const totalVisualRows = this.isLargeFile()
+        ? this.document.lineCount // Unwrapped
+        : this.document.measureBefore(this.document.lineCount, this.getRowMeasure());
+
+    const maxOffset = Math.max(0, totalVisualRows - this.screenRows);
+    this.rowOffset = Math.max(0, Math.min(maxOffset, this.rowOffset + amount));
+
+    const currentVisualRow = this.findCurrentVisualRowIndex();
+    const bottomEdge = this.rowOffset + this.screenRows - 1;
+    let targetRow = -1;
+    if (currentVisualRow < this.rowOffset) targetRow = this.rowOffset;
+    else if (currentVisualRow > bottomEdge) targetRow = bottomEdge;
+
+    if (targetRow !== -1) {
+        // Move cursor to the start of the visual row at the viewport edge
+        const targetPos = this.getLogicalFromVisual(targetRow);
+        this.cursorY = targetPos.logicalY;
+        this.cursorX = this.getLineLayout(this.cursorY)[targetPos.visualYOffset] ?? 0;
+    }
+}
+
 /**
  * Jumps the cursor to a specific line number (1-based).
  */
@@ -158,7 +160,7 @@ function jumpToLine(this: CliEditor, lineNumber: number): void {
     const targetY = lineNumber - 1; // Convert 1-based to 0-based index
     
     // Clamp targetY to valid range
-    this.cursorY = Math.max(0, Math.min(targetY, this.lines.length - 1));
+    this.cursorY = Math.max(0, Math.min(targetY, this.document.lineCount - 1));
     this.cursorX = 0; // Move to start of line
     
     // Adjust scroll
@@ -179,12 +181,12 @@ function enterGoToLineMode(this: CliEditor): void {
 }
 
 function moveCursorByWord(this: CliEditor, direction: 'left' | 'right'): void {
-    const line = this.lines[this.cursorY];
+    const line = this.document.getLine(this.cursorY);
     if (direction === 'left') {
         if (this.cursorX === 0) {
             if (this.cursorY > 0) {
                 this.cursorY--;
-                this.cursorX = this.lines[this.cursorY].length;
+                this.cursorX = this.document.getLineLength(this.cursorY);
             }
         } else {
             let i = this.cursorX - 1;
@@ -194,7 +196,7 @@ function moveCursorByWord(this: CliEditor, direction: 'left' | 'right'): void {
         }
     } else {
         if (this.cursorX >= line.length) {
-            if (this.cursorY < this.lines.length - 1) {
+            if (this.cursorY < this.document.lineCount - 1) {
                 this.cursorY++;
                 this.cursorX = 0;
             }
@@ -208,15 +210,15 @@ function moveCursorByWord(this: CliEditor, direction: 'left' | 'right'): void {
 }
 
 function matchBracket(this: CliEditor): void {
-    const line = this.lines[this.cursorY];
+    const line = this.document.getLine(this.cursorY);
     const char = line[this.cursorX];
     const pairs: Record<string, string> = { '(': ')', '[': ']', '{': '}' };
     const revPairs: Record<string, string> = { ')': '(', ']': '[', '}': '{' };
     
     if (pairs[char]) {
         let depth = 1;
-        for (let y = this.cursorY; y < this.lines.length; y++) {
-            const l = this.lines[y];
+        for (let y = this.cursorY; y < this.document.lineCount; y++) {
+            const l = this.document.getLine(y);
             const startX = (y === this.cursorY) ? this.cursorX + 1 : 0;
             for (let x = startX; x < l.length; x++) {
                 if (l[x] === char) depth++;
@@ -233,7 +235,7 @@ function matchBracket(this: CliEditor): void {
     } else if (revPairs[char]) {
         let depth = 1;
         for (let y = this.cursorY; y >= 0; y--) {
-            const l = this.lines[y];
+            const l = this.document.getLine(y);
             const startX = (y === this.cursorY) ? this.cursorX - 1 : l.length - 1;
             for (let x = startX; x >= 0; x--) {
                 if (l[x] === char) depth++;
@@ -258,6 +260,7 @@ export const navigationMethods = {
     findVisualRowEnd,
     adjustCursorPosition,
     scroll,
+    scrollViewport,
     jumpToLine,
     enterGoToLineMode,
     moveCursorByWord,
@@ -0,0 +1,275 @@
+// src/editor.panes.ts
+
+import { CliEditor } from './editor.js';
+import { ANSI } from './constants.js';
+import { EditorBuffer } from './editor.buffers.js';
+import { Rect } from './types.js';
+
+/**
+ * Methods for split panes. Like buffers, the focused pane lives in the editor's
+ * own fields (cursor, rowOffset and the screenRows/screenCols/screenStart* viewport);
+ * other panes are `EditorPane` records that are loaded temporarily to draw them.
+ */
+
+/**
+ * A window onto a buffer with its own cursor and viewport.
+ */
+export interface EditorPane {
+    buffer: EditorBuffer;
+    cursorX: number;
+    cursorY: number;
+    selectionAnchor: { x: number, y: number } | null;
+    rowOffset: number;
+    rect: Rect; // Screen area, assigned by layoutPanes()
+}
+
+/**
+ * Layout tree of the panes. 'horizontal' stacks `first` above `second`
+ * (horizontal divider), 'vertical' places them side by side.
+ */
+export type PaneLayout =
+    | { pane: EditorPane }
+    | { split: 'horizontal' | 'vertical', first: PaneLayout, second: PaneLayout };
+
+// Smallest pane that still fits a gutter and a few columns of text
+const MIN_PANE_ROWS = 2;
+const MIN_PANE_COLS = 12;
+
+/**
+ * Creates a pane showing `buffer` at the buffer's last cursor position.
+ */
+function createPane(this: CliEditor, buffer: EditorBuffer): EditorPane {
+    return {
+        buffer,
+        cursorX: buffer.cursorX,
+        cursorY: buffer.cursorY,
+        selectionAnchor: null,
+        rowOffset: buffer.rowOffset,
+        rect: { top: 0, left: 0, rows: 0, cols: 0 },
+    };
+}
+
+/**
+ * Returns all panes in layout order (top-left first).
+ */
+function getPanes(this: CliEditor): EditorPane[] {
+    const panes: EditorPane[] = [];
+    const walk = (node: PaneLayout): void => {
+        if ('pane' in node) panes.push(node.pane);
+        else { walk(node.first); walk(node.second); }
+    };
+    walk(this.paneLayout);
+    return panes;
+}
+
+/**
+ * Copies the editor's live cursor and viewport into a pane's record
+ * (the focused pane unless the live state currently belongs to another one).
+ */
+function stashPane(this: CliEditor, pane: EditorPane = this.focusedPane): void {
+    pane.buffer = this.buffers[this.activeBufferIndex];
+    pane.cursorX = this.cursorX;
+    pane.cursorY = this.cursorY;
+    pane.selectionAnchor = this.selectionAnchor;
+    pane.rowOffset = this.rowOffset;
+}
+
+/**
+ * Loads a pane record (its buffer, cursor and viewport) into the editor's live state.
+ * The active buffer must have been stashed before.
+ */
+function loadPane(this: CliEditor, pane: EditorPane): void {
+    if (pane.buffer !== this.buffers[this.activeBufferIndex]) {
+        this.activeBufferIndex = this.buffers.indexOf(pane.buffer);
+        this.loadBuffer(pane.buffer);
+    }
+    this.cursorX = pane.cursorX;
+    this.cursorY = pane.cursorY;
+    this.selectionAnchor = pane.selectionAnchor;
+    this.rowOffset = pane.rowOffset;
+    this.screenRows = pane.rect.rows;
+    this.screenCols = pane.rect.cols;
+    this.screenStartRow = pane.rect.top + 1;
+    this.screenStartCol = pane.rect.left + 1;
+}
+
+/**
+ * Assigns a screen rectangle to every pane by splitting the text area along
+ * the layout tree (one row/column is kept for each divider), then applies
+ * the focused pane's rectangle to the live viewport.
+ */
+function layoutPanes(this: CliEditor): void {
+    const assign = (node: PaneLayout, rect: Rect): void => {
+        if ('pane' in node) {
+            node.pane.rect = rect;
+        } else if (node.split === 'horizontal') {
+            const firstRows = Math.floor((rect.rows - 1) / 2);
+            assign(node.first, { ...rect, rows: firstRows });
+            assign(node.second, { ...rect, top: rect.top + firstRows + 1, rows: rect.rows - firstRows - 1 });
+        } else {
+            const firstCols = Math.floor((rect.cols - 1) / 2);
+            assign(node.first, { ...rect, cols: firstCols });
+            assign(node.second, { ...rect, left: rect.left + firstCols + 1, cols: rect.cols - firstCols - 1 });
+        }
+    };
+    assign(this.paneLayout, this.textArea);
+
+    const { rect } = this.focusedPane;
+    this.screenRows = rect.rows;
+    this.screenCols = rect.cols;
+    this.screenStartRow = rect.top + 1;
+    this.screenStartCol = rect.left + 1;
+}
+
+/**
+ * Draws the dividers between panes into the screen buffer.
+ */
+function renderPaneDividers(this: CliEditor): void {
+    const draw = (node: PaneLayout, rect: Rect): void => {
+        if ('pane' in node) return;
+        if (node.split === 'horizontal') {
+            const firstRows = Math.floor((rect.rows - 1) / 2);
+            this.screenBuffer.putString(rect.left, rect.top + firstRows, '─'.repeat(rect.cols), ANSI.DIM);
+            draw(node.first, { ...rect, rows: firstRows });
+            draw(node.second, { ...rect, top: rect.top + firstRows + 1, rows: rect.rows - firstRows - 1 });
+        } else {
+            const firstCols = Math.floor((rect.cols - 1) / 2);
+            for (let y = 0; y < rect.rows; y++) {
+                this.screenBuffer.put(rect.left + firstCols, rect.top + y, '│', ANSI.DIM);
+            }
+            draw(node.first, { ...rect, cols: firstCols });
+            draw(node.second, { ...rect, left: rect.left + firstCols + 1, cols: rect.cols - firstCols - 1 });
+        }
+    };
+    draw(this.paneLayout, this.textArea);
+}
+
+/**
+ * Draws every pane except the focused one, then restores the focused pane.
+ */
+function renderInactivePanes(this: CliEditor): void {
+    const focused = this.focusedPane;
+    this.stashPane();
+    this.stashActiveBuffer();
+    for (const pane of this.getPanes()) {
+        if (pane === focused) continue;
+        this.loadPane(pane);
+        this.updateGutterWidth();
+        this.adjustCursorPosition();
+        this.scroll();
+        this.renderPane();
+        this.stashPane(pane); // Keep the clamped cursor and scroll position
+    }
+    this.loadPane(focused);
+}
+
+/**
+ * Replaces the node holding `pane` in the layout tree.
+ */
+function replaceLayoutNode(this: CliEditor, pane: EditorPane, replacement: (node: PaneLayout) => PaneLayout): void {
+    const visit = (node: PaneLayout): PaneLayout => {
+        if ('pane' in node) return node.pane === pane ? replacement(node) : node;
+        return { split: node.split, first: visit(node.first), second: visit(node.second) };
+    };
+    this.paneLayout = visit(this.paneLayout);
+}
+
+/**
+ * Splits the focused pane in two; the new pane shows the same buffer and gets focus.
+ */
+function splitPane(this: CliEditor, direction: 'horizontal' | 'vertical'): void {
+    const { rect } = this.focusedPane;
+    const tooSmall = direction === 'horizontal'
+        ? Math.floor((rect.rows - 1) / 2) < MIN_PANE_ROWS
+        : Math.floor((rect.cols - 1) / 2) < MIN_PANE_COLS;
+    if (tooSmall) {
+        this.setStatusMessage('Not enough room to split', 1500);
+        return;
+    }
+
+    this.stashPane();
+    this.stashActiveBuffer();
+    const pane: EditorPane = { ...this.focusedPane, rect: { ...rect } };
+    this.replaceLayoutNode(this.focusedPane, node => ({ split: direction, first: node, second: { pane } }));
+    this.focusedPane = pane;
+    this.layoutPanes();
+}
+
+/**
+ * Closes the focused pane and moves focus to the pane that takes over its space.
+ * The last pane cannot be closed (use Quit instead).
+ */
+function closePane(this: CliEditor): void {
+    if ('pane' in this.paneLayout) {
+        this.setStatusMessage('Cannot close the only pane', 1500);
+        return;
+    }
+
+    this.stopSwap();
+    this.stashPane();
+    this.stashActiveBuffer();
+    const closing = this.focusedPane;
+    let sibling: PaneLayout = this.paneLayout;
+    // The split holding the closed pane is replaced by its other half
+    const visit = (node: PaneLayout): PaneLayout => {
+        if ('pane' in node) return node;
+        if ('pane' in node.first && node.first.pane === closing) return (sibling = node.second);
+        if ('pane' in node.second && node.second.pane === closing) return (sibling = node.first);
+        return { split: node.split, first: visit(node.first), second: visit(node.second) };
+    };
+    this.paneLayout = visit(this.paneLayout);
+
+    while (!('pane' in sibling)) sibling = sibling.first;
+    this.focusedPane = sibling.pane;
+    this.loadPane(this.focusedPane);
+    this.startSwap();
+    this.layoutPanes();
+}
+
+/**
+ * Moves focus to the next (+1) or previous (-1) pane in layout order.
+ */
+function focusPane(this: CliEditor, direction: 1 | -1): void {
+    const panes = this.getPanes();
+    if (panes.length < 2) return;
+
+    this.stopSwap();
+    this.stashPane();
+    this.stashActiveBuffer();
+    const index = panes.indexOf(this.focusedPane);
+    this.focusedPane = panes[(index + direction + panes.length) % panes.length];
+    this.loadPane(this.focusedPane);
+    this.startSwap();
+
+    this.mode = 'edit';
+    this.clearSearchResults();
+}
+
+/**
+ * Points every pane showing `from` at `to` (used when a buffer is closed).
+ */
+function retargetPanes(this: CliEditor, from: EditorBuffer, to: EditorBuffer): void {
+    for (const pane of this.getPanes()) {
+        if (pane.buffer !== from) continue;
+        pane.buffer = to;
+        pane.cursorX = to.cursorX;
+        pane.cursorY = to.cursorY;
+        pane.selectionAnchor = null;
+        pane.rowOffset = to.rowOffset;
+    }
+}
+
+export const paneMethods = {
+    createPane,
+    getPanes,
+    stashPane,
+    loadPane,
+    layoutPanes,
+    renderPaneDividers,
+    renderInactivePanes,
+    replaceLayoutNode,
+    splitPane,
+    closePane,
+    focusPane,
+    retargetPanes,
+};
@@ -2,6 +2,11 @@
 
 import { CliEditor } from './editor.js';
 import { ANSI } from './constants.js';
+import { formatEncoding } from './encoding.js';
+import { formatIndentation } from './indentation.js';
+import { LargeFileDocument } from './large_file.js';
+import { LineMeasure } from './document.js';
+import { cellWidth, previousGraphemeOffset, splitGraphemes, stringWidth, wrapLine } from './unicode.js';
 
 /**
  * Core methods for rendering the document content, status bar, and cursor.
@@ -12,7 +17,7 @@ import { ANSI } from './constants.js';
  * Ensures that line numbers (e.g., "10000") don't overflow into the content.
  */
 function updateGutterWidth(this: CliEditor): void {
-    const lineCount = this.lines.length;
+    const lineCount = this.document.lineCount;
     // Calculate required width: Number of digits + 3 characters for padding/separator (" | ")
     // Example: 10000 lines -> 5 digits + 3 = width 8.
     // Minimum width is kept at 5 (default).
@@ -22,45 +27,110 @@ function updateGutterWidth(this: CliEditor): void {
     this.gutterWidth = Math.max(5, requiredWidth);
 }
 
+/**
+ * Returns the offsets at which the visual rows of a logical line start.
+ * Wrapping counts terminal cells, so wide characters and tabs fill a row faster.
+ * Large files aren't wrapped (long lines are cut off at the edge).
+ * @param lineIndex The index of the logical line.
+ */
+function getLineLayout(this: CliEditor, lineIndex: number): number[] {
+    if (this.isLargeFile()) return [0];
+    const contentWidth = Math.max(1, this.screenCols - this.gutterWidth);
+    return wrapLine(this.document.getLine(lineIndex), contentWidth, this.tabSize);
+}
+
+/**
+ * Returns the measure of wrapped rows per line for the current content width
+ * and tab size. Its per-chunk cache survives across frames, so only lines in
+ * chunks changed by an edit are wrapped again.
+ */
+function getRowMeasure(this: CliEditor): LineMeasure {
+    const contentWidth = Math.max(1, this.screenCols - this.gutterWidth);
+    const key = `${contentWidth}:${this.tabSize}`;
+    let measure = this.rowMeasures.get(key);
+    if (!measure) {
+        // Only a few widths are in use at once (one per pane); drop stale ones after a resize
+        if (this.rowMeasures.size >= 8) this.rowMeasures.clear();
+        const tabSize = this.tabSize;
+        measure = new LineMeasure(line => wrapLine(line, contentWidth, tabSize).length);
+        this.rowMeasures.set(key, measure);
+    }
+    return measure;
+}
+
 /**
  * Calculates how many visual rows a logical line occupies.
  * @param lineIndex The index of the logical line.
  */
 function getLineVisualHeight(this: CliEditor, lineIndex: number): number {
-    const line = this.lines[lineIndex];
-    if (line === undefined) return 1;
     // Empty line takes 1 row
-    if (line.length === 0) return 1;
-    
+    return this.getLineLayout(lineIndex).length;
+}
+
+/**
+ * Maps a logical position to its visual row within the line and its screen column (in cells).
+ * A position after the last cell of a full row is shown at the start of the next row.
+ */
+function getVisualPosition(this: CliEditor, y: number, x: number): { row: number; col: number } {
+    const line = this.document.getLine(y);
+    const starts = this.getLineLayout(y);
+    let row = starts.length - 1;
+    while (row > 0 && starts[row] > x) row--;
+
+    const col = stringWidth(line.slice(starts[row], x), this.tabSize);
     const contentWidth = Math.max(1, this.screenCols - this.gutterWidth);
-    return Math.ceil(line.length / contentWidth);
+    if (this.isLargeFile()) return { row: 0, col: Math.min(col, contentWidth - 1) }; // Unwrapped
+    return col >= contentWidth ? { row: row + 1, col: 0 } : { row, col };
+}
+
+/**
+ * Maps a visual row of line `y` and a screen column back to an offset: the last
+ * character boundary at or left of the column (never inside a wide character or a tab).
+ */
+function getOffsetAtVisual(this: CliEditor, y: number, row: number, col: number): number {
+    const line = this.document.getLine(y);
+    const starts = this.getLineLayout(y);
+    const contentWidth = Math.max(1, this.screenCols - this.gutterWidth);
+    if (row >= starts.length) return line.length;
+
+    const start = starts[row];
+    const end = row + 1 < starts.length ? starts[row + 1] : line.length;
+    let offset = start;
+    let column = 0;
+    for (const grapheme of splitGraphemes(line.slice(start, end))) {
+        const cells = cellWidth(grapheme, column, this.tabSize, contentWidth);
+        if (column + cells > col) break;
+        column += cells;
+        offset += grapheme.length;
+    }
+    // The end of a wrapped row is the start of the next one; stay on this row
+    if (row + 1 < starts.length && offset >= end) {
+        offset = previousGraphemeOffset(line, end);
+    }
+    return offset;
 }
 
 /**
  * Maps a global visual row index to its corresponding logical line and offset.
- * Note: This is O(N) where N is the number of logical lines.
- * Optimization: For very large files, this would need a tree structure.
- * * @param visualY The global visual row index (0-based).
+ * Row counts are cached per document chunk (see getRowMeasure), so this walks
+ * chunk totals and wraps at most the lines of edited chunks.
+ * @param visualY The global visual row index (0-based).
  * @returns Object containing logicalY and the visual offset within that line.
  */
 function getLogicalFromVisual(this: CliEditor, visualY: number): { logicalY: number; visualYOffset: number } {
-    let currentVisualY = 0;
-    
-    for (let i = 0; i < this.lines.length; i++) {
-        const height = this.getLineVisualHeight(i);
-        if (currentVisualY + height > visualY) {
-            return {
-                logicalY: i,
-                visualYOffset: visualY - currentVisualY
-            };
-        }
-        currentVisualY += height;
+    // Unwrapped lines (large files) are one row each
+    if (this.isLargeFile()) {
+        return { logicalY: Math.min(visualY, this.document.lineCount - 1), visualYOffset: 0 };
+    }
+    const found = this.document.findByMeasure(Math.max(0, visualY), this.getRowMeasure());
+    if (found) {
+        return { logicalY: found.y, visualYOffset: Math.max(0, visualY) - found.before };
     }
     
     // If out of bounds, return the last line's end
     return { 
-        logicalY: this.lines.length - 1, 
-        visualYOffset: Math.max(0, this.getLineVisualHeight(this.lines.length - 1) - 1)
+        logicalY: this.document.lineCount - 1, 
+        visualYOffset: Math.max(0, this.getLineVisualHeight(this.document.lineCount - 1) - 1)
     };
 }
 
@@ -68,6 +138,17 @@ function getLogicalFromVisual(this: CliEditor, visualY: number): { logicalY: num
  * The main rendering loop.
  */
 function render(this: CliEditor): void {
+    // Clear buffer for next frame logic (conceptually)
+    // Actually ScreenBuffer.clear() fills with spaces, which is what we want for empty areas.
+    this.screenBuffer.clear();
+
+    // Split panes: size every pane, then draw the ones without focus
+    this.layoutPanes();
+    if (!('pane' in this.paneLayout)) {
+        this.renderInactivePanes();
+        this.renderPaneDividers();
+    }
+
     // 1. Dynamic Gutter Update
     // We update this every frame to handle cases where lines are added/removed.
     // This fixes the "Gutter Overflow" issue on large files.
@@ -75,11 +156,49 @@ function render(this: CliEditor): void {
 
     this.adjustCursorPosition();
     this.scroll();
+    this.emitStateEvents();
 
-    // Clear buffer for next frame logic (conceptually)
-    // Actually ScreenBuffer.clear() fills with spaces, which is what we want for empty areas.
-    this.screenBuffer.clear();
+    this.renderPane();
+    if (this.mode === 'undo_tree') {
+        this.renderUndoTree();
+    }
+
+    // Draw Status Bar
+    this.renderStatusBarToBuffer();
     
+    // Flush Screen Buffer
+    this.screenBuffer.flush();
+    
+    if (this.hexView) {
+        const { x, y } = this.getHexCursorPosition();
+        this.outputStream.write(this.screenBuffer.cursorTo(x, y));
+        return;
+    }
+
+    // Set physical cursor position (ensure cursor is visible on screen)
+    const cursorGlobalVisualRow = this.findCurrentVisualRowIndex(); 
+    const relativeVisualRow = cursorGlobalVisualRow - this.rowOffset;
+    
+    if (relativeVisualRow >= 0 && relativeVisualRow < this.screenRows) {
+        const visualXInChunk = this.getVisualPosition(this.cursorY, this.cursorX).col;
+        
+        const displayY = this.screenStartRow - 1 + relativeVisualRow;
+        const displayX = this.screenStartCol - 1 + visualXInChunk + this.gutterWidth;
+        this.outputStream.write(this.screenBuffer.cursorTo(displayX, displayY));
+    }
+}
+
+/**
+ * Draws the document into the current viewport (screenStartRow/screenStartCol,
+ * screenRows x screenCols): gutter, text, highlights and scrollbar.
+ */
+function renderPane(this: CliEditor): void {
+    if (this.hexView) {
+        this.renderHexPane();
+        return;
+    }
+    const left = this.screenStartCol - 1; // 0-based X of the viewport
+
     // Recalculate content width with the NEW gutter width
     const contentWidth = Math.max(1, this.screenCols - this.gutterWidth);
     
@@ -93,7 +212,7 @@ function render(this: CliEditor): void {
     const selectionRange = this.getNormalizedSelection();
 
     // Scrollbar calculations
-    const totalLines = this.lines.length;
+    const totalLines = this.document.lineCount;
     // const startLogicalY = startPos.logicalY; // Unused variable
     const showScrollbar = totalLines > this.screenRows; 
     const thumbHeight = showScrollbar ? Math.max(1, Math.floor((this.screenRows / totalLines) * this.screenRows)) : 0;
@@ -104,24 +223,24 @@ function render(this: CliEditor): void {
         const screenY = this.screenStartRow + visualRowsRendered - 1; // 0-based Y for ScreenBuffer
 
         // Stop if we run out of content
-        if (logicalY >= this.lines.length) {
-            this.screenBuffer.put(0, screenY, '~', ANSI.CYAN); 
+        if (logicalY >= this.document.lineCount) {
+            this.screenBuffer.put(left, screenY, '~', ANSI.CYAN); 
             visualRowsRendered++;
             continue;
         }
 
-        const line = this.lines[logicalY];
-        const lineVisualHeight = this.getLineVisualHeight(logicalY);
+        const line = this.document.getLine(logicalY);
+        const rowStarts = this.getLineLayout(logicalY);
+        const lineVisualHeight = rowStarts.length;
 
         // Render chunks for this logical line starting from visualOffsetInLine
         for (let v = visualOffsetInLine; v < lineVisualHeight && visualRowsRendered < this.screenRows; v++) {
             const currentScreenY = this.screenStartRow + visualRowsRendered - 1; // 0-based index for buffer
 
-            // Calculate slice of string
-            const chunkStart = v * contentWidth;
-            const chunkEnd = Math.min(chunkStart + contentWidth, line.length);
-            // Handle empty line case
-            const chunk = (line.length === 0 && v === 0) ? '' : line.substring(chunkStart, chunkEnd);
+            // Slice of the line shown on this row
+            const chunkStart = rowStarts[v];
+            const chunkEnd = v + 1 < lineVisualHeight ? rowStarts[v + 1] : line.length;
+            const chunk = line.substring(chunkStart, chunkEnd);
             
             // 1. Draw Gutter
             // Ensure padding logic uses the current gutterWidth
@@ -129,16 +248,17 @@ function render(this: CliEditor): void {
               ? `${logicalY + 1}`.padStart(this.gutterWidth - 2, ' ') + ' | '
               : ' '.padStart(this.gutterWidth - 2, ' ') + ' | ';
             
-            this.screenBuffer.putString(0, currentScreenY, gutterStr, ANSI.DIM); 
+            this.screenBuffer.putString(left, currentScreenY, gutterStr, ANSI.DIM); 
 
             // 2. Syntax Highlighting & Char Rendering
             const syntaxColorMap = this.getLineSyntaxColor(logicalY, line);
             
-            for (let i = 0; i < chunk.length; i++) {
-                const char = chunk[i];
-                const logicalX = chunkStart + i;
-                const bufferX = this.gutterWidth + i;
-                
+            // One grapheme cluster at a time; wide ones take two cells, tabs reach the next tab stop
+            const rowX = left + this.gutterWidth;
+            let logicalX = chunkStart;
+            let bufferX = rowX;
+            for (const char of splitGraphemes(chunk)) {
+                if (bufferX >= rowX + contentWidth) break; // Rest of an unwrapped line
                 const isCursorPosition = (logicalY === this.cursorY) && (logicalX === this.cursorX);
                 const isSelected = selectionRange && this.isPositionInSelection(logicalY, logicalX, selectionRange);
                 
@@ -170,29 +290,41 @@ function render(this: CliEditor): void {
                 } else if (isCursorPosition) {
                     style = ANSI.INVERT_COLORS;
                 } else if (isCurrentSearchResult) {
-                    style = ANSI.INVERT_COLORS + '\x1b[4m'; // Invert + Underline
+                    style = ANSI.INVERT_COLORS + ANSI.UNDERLINE; // Invert + Underline
                 } else if (isGlobalSearchResult) {
                     style = ANSI.INVERT_COLORS;
                 } else if (syntaxColor) {
                     style = syntaxColor;
                 }
                 
-                this.screenBuffer.put(bufferX, currentScreenY, char, style);
+                const cells = cellWidth(char, bufferX - rowX, this.tabSize, contentWidth);
+                if (char === '\t') {
+                    // Expanded to spaces; the block cursor only covers the first cell
+                    const fillStyle = isCursorPosition && !isSelected ? syntaxColor : style;
+                    for (let i = 0; i < cells; i++) {
+                        this.screenBuffer.put(bufferX + i, currentScreenY, ' ', i === 0 ? style : fillStyle);
+                    }
+                } else {
+                    this.screenBuffer.put(bufferX, currentScreenY, char, style);
+                }
+                logicalX += char.length;
+                bufferX += cells;
             }
 
-            // Handle Cursor at End of Line
-            if (logicalY === this.cursorY && this.cursorX === line.length && chunkEnd === line.length) {
-                // Determine X position for the space
-                const spaceX = this.gutterWidth + (line.length - chunkStart);
-                this.screenBuffer.put(spaceX, currentScreenY, ' ', ANSI.INVERT_COLORS);
+            // Handle Cursor at End of Line (on a full row it moves to the start of the next row)
+            if (
+                logicalY === this.cursorY && this.cursorX === line.length && chunkEnd === line.length &&
+                bufferX < left + this.gutterWidth + contentWidth
+            ) {
+                this.screenBuffer.put(bufferX, currentScreenY, ' ', ANSI.INVERT_COLORS);
             }
             
             // Draw Scrollbar
             if (showScrollbar) {
                 const isThumb = visualRowsRendered >= thumbStart && visualRowsRendered < thumbStart + thumbHeight;
                 const scrollChar = isThumb ? '┃' : '│'; 
-                // Rightmost column: this.screenCols - 1 (0-based)
-                this.screenBuffer.put(this.screenCols - 1, currentScreenY, scrollChar, ANSI.RESET_COLORS);
+                // Rightmost column of the viewport (0-based)
+                this.screenBuffer.put(left + this.screenCols - 1, currentScreenY, scrollChar, ANSI.RESET_COLORS);
             }
 
             visualRowsRendered++;
@@ -202,26 +334,6 @@ function render(this: CliEditor): void {
         logicalY++;
         visualOffsetInLine = 0; 
     }
-
-    // Draw Status Bar
-    this.renderStatusBarToBuffer();
-    
-    // Flush Screen Buffer
-    this.screenBuffer.flush();
-    
-    // Set physical cursor position (ensure cursor is visible on screen)
-    
-    const cursorGlobalVisualRow = this.findCurrentVisualRowIndex(); 
-    const relativeVisualRow = cursorGlobalVisualRow - this.rowOffset;
-    
-    if (relativeVisualRow >= 0 && relativeVisualRow < this.screenRows) {
-        const cx = this.cursorX;
-        const visualXInChunk = cx % contentWidth;
-        
-        const displayY = this.screenStartRow + relativeVisualRow;
-        const displayX = visualXInChunk + this.gutterWidth + 1;
-        process.stdout.write(`\x1b[${displayY};${displayX}H`);
-    }
 }
 
 /**
@@ -255,8 +367,10 @@ function setStatusMessage(this: CliEditor, message: string, timeoutMs: number =
  * Renders the status bar content directly to the ScreenBuffer.
  */
 function renderStatusBarToBuffer(this: CliEditor): void {
-    const contentWidth = this.screenCols;
-    const startY = this.screenRows + this.screenStartRow - 1; // 0-based Y
+    // The status bar spans the whole text area, below all panes
+    const contentWidth = this.textArea.cols;
+    const startX = this.textArea.left;
+    const startY = this.textArea.top + this.textArea.rows; // 0-based Y
     
     let status = '';
     // --- Line 1 ---
@@ -270,17 +384,43 @@ function renderStatusBarToBuffer(this: CliEditor): void {
         case 'goto_line':
             status = 'Go to Line: ' + this.goToLineQuery;
             break;
+        case 'open_file':
+            status = 'Open File: ' + this.openFileQuery;
+            break;
+        case 'encoding':
+            status = (this.encodingAction === 'save' ? 'Save with Encoding: ' : 'Re-open with Encoding: ') + this.encodingQuery;
+            break;
+        case 'time_travel':
+            status = 'Go back (e.g. 30s, 5m): ' + this.timeTravelQuery;
+            break;
+        case 'undo_tree':
+            status = 'Undo Tree: Up/Down = select branch, Enter = go to it, Esc = close';
+            break;
         case 'search_confirm':
             status = this.statusMessage; 
             break;
         case 'edit':
         default: {
             const visualRowIndex = this.findCurrentVisualRowIndex();
-            const contentWidthVal = Math.max(1, this.screenCols - this.gutterWidth);
-            const visualX = this.cursorX % contentWidthVal;
-            const fileStatus = this.isDirty ? `* ${this.filepath}` : this.filepath;
-            const pos = `Ln ${this.cursorY + 1}, Col ${this.cursorX + 1} (View: ${visualRowIndex + 1},${visualX + 1})`;
-            const statusLeft = `[${fileStatus}]`.padEnd(Math.floor(contentWidth * 0.5));
+            const visualX = this.getVisualPosition(this.cursorY, this.cursorX).col;
+            let fileStatus = this.isDirty ? `* ${this.filepath}` : this.filepath;
+            if (this.readOnly || this.isLargeFile()) fileStatus += ' (read-only)';
+            if (this.document instanceof LargeFileDocument && !this.document.indexed) {
+                fileStatus += ` Indexing ${Math.floor(this.document.progress * 100)}%`;
+            }
+            if (this.buffers.length > 1) {
+                fileStatus = `${this.activeBufferIndex + 1}/${this.buffers.length} ${fileStatus}`;
+            }
+            // Col counts display columns (tabs expanded), not characters
+            const column = stringWidth(this.document.getLine(this.cursorY).slice(0, this.cursorX), this.tabSize);
+            let pos = `Ln ${this.cursorY + 1}, Col ${column + 1} (View: ${visualRowIndex + 1},${visualX + 1})`;
+            let fileFormat = `${formatEncoding(this.encoding, this.bom)} ${this.lineEnding} ${formatIndentation(this.useTabs, this.useTabs ? this.tabSize : this.indentSize)}`;
+            if (this.hexView) {
+                const { offset, bytes } = this.hexView;
+                pos = `Offset 0x${offset.toString(16).padStart(8, '0')} (${offset} of ${bytes.length} bytes)`;
+                fileFormat = 'Hex';
+            }
+            const statusLeft = `[${fileStatus}] ${fileFormat}`.padEnd(Math.floor(contentWidth * 0.5));
             const statusRight = pos.padStart(Math.floor(contentWidth * 0.5));
             status = statusLeft + statusRight;
             break;
@@ -289,11 +429,11 @@ function renderStatusBarToBuffer(this: CliEditor): void {
     
     // Pad and put line 1
     status = status.padEnd(contentWidth);
-    this.screenBuffer.putString(0, startY, status, ANSI.INVERT_COLORS);
+    this.screenBuffer.putString(startX, startY, status, ANSI.INVERT_COLORS);
 
     // --- Line 2 ---
-    const message = (this.mode === 'edit' ? this.DEFAULT_STATUS : this.statusMessage).padEnd(contentWidth);
-    this.screenBuffer.putString(0, startY + 1, message, '');
+    const message = (this.mode === 'edit' && !this.isMessageCustom ? this.DEFAULT_STATUS : this.statusMessage).padEnd(contentWidth);
+    this.screenBuffer.putString(startX, startY + 1, message, '');
 }
 
 
@@ -310,9 +450,14 @@ function renderStatusBar(this: CliEditor): string {
 
 export const renderingMethods = {
     updateGutterWidth, // Export the new method
+    getLineLayout,
+    getRowMeasure,
     getLineVisualHeight,
+    getVisualPosition,
+    getOffsetAtVisual,
     getLogicalFromVisual,
     render,
+    renderPane,
     setStatusMessage,
     renderStatusBar,
     renderStatusBarToBuffer,
@@ -22,6 +22,7 @@ function enterFindMode(this: CliEditor): void {
  * Enters Replace mode (starting with the "Find" prompt).
  */
 function enterReplaceMode(this: CliEditor): void {
+    if (this.guardReadOnly()) return;
     this.mode = 'search_find';
     this.searchQuery = '';
     this.replaceQuery = ''; // Mark as Replace flow
@@ -37,12 +38,13 @@ function executeSearch(this: CliEditor): void {
     this.searchResults = [];
     this.searchResultMap.clear();
 
-    if (this.searchQuery === '') return;
+    // Large files are searched one match at a time (see findNextInLargeFile)
+    if (this.searchQuery === '' || this.isLargeFile()) return;
     
     const queryLen = this.searchQuery.length;
 
-    for (let y = 0; y < this.lines.length; y++) {
-      const line = this.lines[y];
+    for (let y = 0; y < this.document.lineCount; y++) {
+      const line = this.document.getLine(y);
       let index = -1;
       const lineMatches: { start: number; end: number }[] = [];
 
@@ -69,6 +71,10 @@ function findNext(this: CliEditor): void {
         this.enterFindMode();
         return;
     }
+    if (this.isLargeFile()) {
+        this.findNextInLargeFile();
+        return;
+    }
     // Execute search if results are not yet populated
     if (this.searchResults.length === 0 && this.searchResultIndex === -1) {
         this.executeSearch();
@@ -103,20 +109,18 @@ function findNext(this: CliEditor): void {
  * Replaces the current highlighted search result and finds the next one.
  */
 function replaceCurrentAndFindNext(this: CliEditor): void {
+    if (this.guardReadOnly()) return;
     if (this.searchResultIndex === -1 || !this.searchResults[this.searchResultIndex]) {
         this.findNext();
         return;
     }
     
     const result = this.searchResults[this.searchResultIndex];
-    const line = this.lines[result.y];
-    
-    const before = line.substring(0, result.x);
-    const after = line.substring(result.x + this.searchQuery.length);
+    const matchEnd = { x: result.x + this.searchQuery.length, y: result.y };
     
     // Use replaceQuery (it's guaranteed to be a string here, not null)
-    this.lines[result.y] = before + this.replaceQuery! + after;
-    this.setDirty();
+    this.document.replace(result, matchEnd, this.replaceQuery!);
+    this.setDirty(result.y, result.y);
 
     // Store current position to find the *next* match after this one
     const replacedResultY = result.y;
@@ -153,6 +157,7 @@ function replaceCurrentAndFindNext(this: CliEditor): void {
  * Replaces all occurrences of the search query.
  */
 function replaceAll(this: CliEditor): void {
+    if (this.guardReadOnly()) return;
     if (this.searchResults.length === 0) {
         this.executeSearch();
     }
@@ -166,16 +171,13 @@ function replaceAll(this: CliEditor): void {
     // Iterate backwards to ensure indices remain valid during replacement
     for (let i = this.searchResults.length - 1; i >= 0; i--) {
         const result = this.searchResults[i];
-        const line = this.lines[result.y];
-        
-        const before = line.substring(0, result.x);
-        const after = line.substring(result.x + this.searchQuery.length);
+        const matchEnd = { x: result.x + this.searchQuery.length, y: result.y };
         
-        this.lines[result.y] = before + this.replaceQuery! + after;
+        this.document.replace(result, matchEnd, this.replaceQuery!);
         count++;
     }
     
-    this.setDirty();
+    this.setDirty(this.searchResults[0].y, this.searchResults[this.searchResults.length - 1].y);
     this.mode = 'edit';
     this.searchResults = [];
     this.searchResultIndex = -1;
@@ -79,29 +79,8 @@ function getSelectedText(this: CliEditor): string {
     const range = this.getNormalizedSelection();
     if (!range) return '';
 
-    const selectedLines: string[] = [];
-
-    for (let y = range.start.y; y <= range.end.y; y++) {
-        const line = this.lines[y] || '';
-
-        const startX = (y === range.start.y) ? range.start.x : 0;
-        let endX = (y === range.end.y) ? range.end.x : line.length;
-
-        // Ensure we don't try to select past the actual line length
-        endX = Math.min(endX, line.length);
-
-        if (startX < endX) {
-            selectedLines.push(line.substring(startX, endX));
-        } else if (y === range.start.y && range.start.y === range.end.y && startX === endX) {
-            // Handle case where selection is zero-width, but on the same line (empty string)
-        } else if (y < range.end.y) {
-            // If it's an empty line that is fully included in the selection
-            selectedLines.push('');
-        }
-    }
-
-    // Join the extracted lines
-    return selectedLines.join('\n');
+    // Positions past the end of a line are clamped by the document
+    return this.document.getTextRange(range.start, range.end);
 }
 
 /**
@@ -109,38 +88,22 @@ function getSelectedText(this: CliEditor): string {
  * Returns true if deletion occurred.
  */
 function deleteSelectedText(this: CliEditor): boolean {
+    if (this.guardReadOnly()) return false;
     const range = this.getNormalizedSelection();
     if (!range) return false;
 
     const { start, end } = range;
     
-    // 1. Join the remaining parts:
-    //    Part 1: Start line content before selection start
-    const startLineContent = this.lines[start.y].substring(0, start.x);
-    //    Part 2: End line content after selection end
-    const endLineContent = this.lines[end.y].substring(end.x);
-    
-    // 2. Set the content of the start line to the joined content
-    this.lines[start.y] = startLineContent + endLineContent;
-    
-    // 3. Remove all lines between start.y and end.y (exclusive)
-    const linesToDeleteCount = end.y - start.y;
-    if (linesToDeleteCount > 0) {
-        this.lines.splice(start.y + 1, linesToDeleteCount);
-    }
+    // 1. Remove the range; the document joins the start and end lines
+    this.document.delete(start, end);
 
-    // 4. Update cursor position (it moves to the start of the former selection)
+    // 2. Update cursor position (it moves to the start of the former selection)
     this.cursorY = start.y;
     this.cursorX = start.x;
 
-    // 5. Clear selection
+    // 3. Clear selection
     this.cancelSelection();
-    this.setDirty();
-
-    // 6. Ensure we didn't accidentally make the document empty
-    if (this.lines.length === 0) {
-        this.lines = [''];
-    }
+    this.setDirty(start.y, start.y);
 
     return true;
 }
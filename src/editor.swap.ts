@@ -49,6 +49,8 @@ export class SwapManager {
         if (currentContent === this.lastSavedContent) return;
 
         try {
+            // Swap files hold the editor's text, not the file's bytes, so they are always UTF-8
+            // (the file's own encoding is detected from the file on recovery)
             await fs.writeFile(this.swapPath, currentContent, 'utf-8');
             this.lastSavedContent = currentContent;
         } catch {
@@ -56,8 +58,10 @@ export class SwapManager {
         }
     }
 
+    // Called after a successful save: the saved content becomes the new baseline,
+    // so the swap is only written again once the buffer changes.
     public async clear(): Promise<void> {
-        this.stop();
+        this.lastSavedContent = this.contentGetter();
         try {
             await fs.unlink(this.swapPath);
         } catch (err) {
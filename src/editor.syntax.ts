@@ -22,6 +22,7 @@ function getLineSyntaxColor(this: CliEditor, lineIndex: number, lineContent: str
     
     if (this.syntaxWorker) {
         this.syntaxWorker.postMessage({ lineIndex, content: lineContent });
+        this.syntaxRequests.push(this.syntaxCache);
         
         // Mark as "pending" in cache to avoid spamming the worker?
         // Let's use an empty map as pending state.
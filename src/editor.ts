@@ -3,10 +3,14 @@
 
 import keypress from './vendor/keypress.js'; 
 import { ANSI } from './constants.js';
-import { HistoryManager } from './history.js';
-import { EditorMode, EditorOptions } from './types.js';
+import { HistoryManager, UNDO_IDLE_TIME } from './history.js';
+import { LineMeasure, TextDocument } from './document.js';
+import { EditorEvents, EditorMode, EditorOptions, EditorResult, FileEncoding, FileResult, LineEnding, OutputStream, Rect, SaveHandler, TerminalSize, Validator } from './types.js';
 import { SwapManager } from './editor.swap.js';
+import type { EditorConfig } from './editorconfig.js';
+import { buildHelpLine, createKeymap, EditorCommand } from './keymap.js';
 import { ScreenBuffer } from './screen_buffer.js';
+import { EventEmitter } from 'events';
 import { Worker } from 'worker_threads';
 import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
@@ -22,6 +26,14 @@ import { ioMethods } from './editor.io.js';
 import { keyHandlingMethods, TKeyHandlingMethods } from './editor.keys.js'; 
 import { selectionMethods, TSelectionMethods } from './editor.selection.js'; 
 import { syntaxMethods } from './editor.syntax.js';
+import { eventMethods } from './editor.events.js';
+import { bufferMethods, EditorBuffer } from './editor.buffers.js';
+import { paneMethods, EditorPane, PaneLayout } from './editor.panes.js';
+import { largeFileMethods } from './editor.largefile.js';
+import { hexMethods, HexView } from './editor.hex.js';
+import { undoTreeMethods } from './editor.undotree.js';
+import { LARGE_FILE_THRESHOLD } from './large_file.js';
+import { UNDO_FILE_MAX_SIZE } from './undo_file.js';
 
 // --- Interface Merging (For TypeScript) ---
 type TEditingMethods = typeof editingMethods;
@@ -32,6 +44,12 @@ type TSearchMethods = typeof searchMethods;
 type THistoryMethods = typeof historyMethods;
 type TIOMethods = typeof ioMethods;
 type TSyntaxMethods = typeof syntaxMethods;
+type TEventMethods = typeof eventMethods;
+type TBufferMethods = typeof bufferMethods;
+type TPaneMethods = typeof paneMethods;
+type TLargeFileMethods = typeof largeFileMethods;
+type THexMethods = typeof hexMethods;
+type TUndoTreeMethods = typeof undoTreeMethods;
 
 export interface CliEditor extends 
   TEditingMethods,
@@ -43,86 +61,159 @@ export interface CliEditor extends
   TIOMethods,
   TKeyHandlingMethods,
   TSelectionMethods,
-  TSyntaxMethods {}
-
-const DEFAULT_STATUS = 'HELP: Ctrl+S = Save | Ctrl+Q = Quit | Ctrl+W = Find | Ctrl+R = Replace | Ctrl+L = Go to Line';
+  TSyntaxMethods,
+  TEventMethods,
+  TBufferMethods,
+  TPaneMethods,
+  TLargeFileMethods,
+  THexMethods,
+  TUndoTreeMethods {}
 
 /**
  * Main editor class managing application state, TTY interaction, and rendering.
+ * Emits the typed events declared in `EditorEvents` ('change', 'cursor', 'mode', 'save', 'quit').
  */
-export class CliEditor {
+export class CliEditor extends EventEmitter<EditorEvents> {
   // --- State Properties ---
-  public lines: string[];
-  public filepath: string;
+  // Per-buffer state: document..rowOffset, history, syntaxCache and swapManager belong to the active buffer
+  public document!: TextDocument;
+  public lineEnding: LineEnding = 'LF'; // Applied when the content is written out
+  public encoding: FileEncoding = 'utf-8';
+  public bom: boolean = false; // Write a byte order mark on save
+  public tabSize: number = 4; // Tab stop width
+  public indentSize: number = 4; // Spaces per indent level (unless useTabs)
+  public useTabs: boolean = false;
+  public editorConfig: EditorConfig = {}; // Save-time settings (trim_trailing_whitespace, insert_final_newline)
+  public hexView: HexView | null = null; // Set while the buffer is shown as hex (binary files)
+  public filepath!: string;
   public isDirty: boolean = false;
+  public hasSaved: boolean = false; // Saved at least once this session
   public cursorX: number = 0;
   public cursorY: number = 0;
   public selectionAnchor: { x: number, y: number } | null = null;
   public rowOffset: number = 0;
+  public buffers: EditorBuffer[] = [];
+  public activeBufferIndex: number = 0;
+  public closedFiles: FileResult[] = []; // Results of buffers closed during the session
+  public closeConfirm: boolean = false;
+  // Viewport of the focused pane (screenStartRow/screenStartCol are 1-based)
   public screenRows: number = 0;
   public screenCols: number = 0;
   public gutterWidth: number = 5;
-  public tabSize: number = 4;
+  // Wrapped rows per line, by content width and tab size (see getRowMeasure)
+  public rowMeasures: Map<string, LineMeasure> = new Map();
+  public indentOptions: Pick<EditorOptions, 'tabSize' | 'useTabs' | 'detectIndentation'> = {};
+  public readOnly: boolean = false;
+  public swapEnabled: boolean = true;
+  public largeFileThreshold: number = LARGE_FILE_THRESHOLD; // Bytes; larger files open as LargeFileDocuments
+  public historyLimit: number = 100; // Undo steps per buffer
+  public undoIdleTime: number = UNDO_IDLE_TIME; // ms
+  public undoFileEnabled: boolean = true;
+  public undoFileMaxSize: number = UNDO_FILE_MAX_SIZE; // Bytes
+  public onSave: SaveHandler | null = null;
+  public validate: Validator | null = null;
   public screenStartRow: number = 1;
+  public screenStartCol: number = 1;
+  public textArea: Rect = { top: 0, left: 0, rows: 0, cols: 0 }; // Area shared by all panes (0-based)
+  public paneLayout!: PaneLayout;
+  public focusedPane!: EditorPane;
   public mode: EditorMode = 'edit';
-  public statusMessage: string = DEFAULT_STATUS;
+  public statusMessage: string;
   public statusTimeout: NodeJS.Timeout | null = null;
   public isMessageCustom: boolean = false;
   public quitConfirm: boolean = false;
-  public readonly DEFAULT_STATUS = DEFAULT_STATUS;
+  public readonly DEFAULT_STATUS: string; // Help line generated from the active keymap
+  public keymap: Map<string, EditorCommand>;
   public searchQuery: string = '';
   public replaceQuery: string | null = null; // null = Find mode, string = Replace mode
   public goToLineQuery: string = ''; // For Go to Line prompt
+  public openFileQuery: string = ''; // For Open File prompt
+  public encodingQuery: string = ''; // For the encoding prompt
+  public encodingAction: 'reopen' | 'save' = 'save';
+  public timeTravelQuery: string = ''; // For the time travel prompt
+  public undoTreeIndex: number = 0; // Selected branch in the undo tree overlay
   public searchResults: { y: number, x: number }[] = [];
   // Map<lineNumber, Array<{ start, end }>> for fast rendering lookup
   public searchResultMap: Map<number, Array<{ start: number; end: number }>> = new Map();
   public searchResultIndex: number = -1;
-  public syntaxCache: Map<number, Map<number, string>> = new Map();
+  public syntaxCache!: Map<number, Map<number, string>>;
+  public syntaxRequests: Array<Map<number, Map<number, string>>> = []; // Target caches of pending worker replies (FIFO)
   public syntaxWorker: Worker | null = null;
-  public history: HistoryManager;
-  public swapManager: SwapManager;
+  public history!: HistoryManager;
+  public swapManager!: SwapManager;
   public screenBuffer: ScreenBuffer;
   public isCleanedUp: boolean = false; 
-  public resolvePromise: ((value: { saved: boolean; content: string }) => void) | null = null;
+  public resolvePromise: ((value: EditorResult) => void) | null = null;
   public rejectPromise: ((reason?: unknown) => void) | null = null;
   public inputStream: NodeJS.ReadStream; // ReadableStream
+  public outputStream: OutputStream;
+  public getTerminalSize: () => TerminalSize;
+  public region: Rect | null = null; // Terminal area the editor draws into (null = full screen)
+  public manageTerminal: boolean = true;
   
   // State flag indicating the editor is in the process of closing (prevents input/render race)
   public isExiting: boolean = false;
 
+  // Last values reported through 'cursor' / 'mode' events
+  public lastCursorKey: string = '';
+  public lastEmittedMode: EditorMode = 'edit';
+
   constructor(initialContent: string, filepath: string, options: EditorOptions = {}) {
-    this.lines = initialContent.split('\n');
-    if (this.lines.length === 0) {
-      this.lines = [''];
-    }
-    this.filepath = filepath;
+    super();
     this.gutterWidth = options.gutterWidth ?? 5;
-    this.tabSize = options.tabSize ?? 4;
+    this.indentOptions = { tabSize: options.tabSize, useTabs: options.useTabs, detectIndentation: options.detectIndentation };
+    this.readOnly = options.readOnly ?? false;
+    this.swapEnabled = options.swapFile ?? true;
+    this.largeFileThreshold = options.largeFileThreshold ?? LARGE_FILE_THRESHOLD;
+    this.historyLimit = options.historyLimit ?? 100;
+    this.undoIdleTime = options.undoIdleTime ?? UNDO_IDLE_TIME;
+    this.undoFileEnabled = options.undoFile ?? true;
+    this.undoFileMaxSize = options.undoFileMaxSize ?? UNDO_FILE_MAX_SIZE;
+    this.onSave = options.onSave ?? null;
+    this.validate = options.validate ?? null;
+    this.keymap = createKeymap(options.keymap);
+    this.DEFAULT_STATUS = buildHelpLine(this.keymap);
+    this.statusMessage = this.DEFAULT_STATUS;
     this.inputStream = options.inputStream || process.stdin;
-    this.history = new HistoryManager();
-    this.screenBuffer = new ScreenBuffer();
-    this.saveState(true);
-    
-    // Initialize SwapManager
-    this.swapManager = new SwapManager(this.filepath, () => this.lines.join('\n'));
+    this.outputStream = options.outputStream || process.stdout;
+    this.getTerminalSize = options.getTerminalSize || (() => ({
+        rows: this.outputStream.rows ?? 24,
+        columns: this.outputStream.columns ?? 80,
+    }));
+    this.region = options.region ?? null;
+    this.manageTerminal = options.manageTerminal ?? true;
+    this.screenBuffer = new ScreenBuffer(this.outputStream);
+
+    // The initial buffer (with its history and SwapManager), shown in a single pane
+    this.loadBuffer(this.addBuffer(initialContent, filepath));
+    this.focusedPane = this.createPane(this.buffers[0]);
+    this.paneLayout = { pane: this.focusedPane };
     
     // Initialize Worker
-    try {
-        const __filename = fileURLToPath(import.meta.url);
-        const __dirname = dirname(__filename);
-        // Assuming compiled code is in dist/ and syntax.worker.js is there.
-        const workerPath = join(__dirname, 'syntax.worker.js');
-        this.syntaxWorker = new Worker(workerPath);
-        this.syntaxWorker.on('message', this.handleWorkerMessage.bind(this));
-    } catch {
-        // Fallback or log error
-        // console.error("Failed to load worker", e);
+    if (options.syntaxWorker ?? true) {
+      try {
+          const __filename = fileURLToPath(import.meta.url);
+          const __dirname = dirname(__filename);
+          // Assuming compiled code is in dist/ and syntax.worker.js is there.
+          const workerPath = join(__dirname, 'syntax.worker.js');
+          this.syntaxWorker = new Worker(workerPath);
+          this.syntaxWorker.on('message', this.handleWorkerMessage.bind(this));
+          // e.g. running from source (no compiled worker): fall back to synchronous highlighting
+          this.syntaxWorker.on('error', () => {
+              this.syntaxWorker = null;
+              this.invalidateSyntaxCache();
+          });
+      } catch {
+          // Fallback or log error
+          // console.error("Failed to load worker", e);
+      }
     }
   }
 
   private handleWorkerMessage(msg: { lineIndex: number; colorMap: Map<number, string> }): void {
       const { lineIndex, colorMap } = msg;
-      this.syntaxCache.set(lineIndex, colorMap);
+      // The worker answers in order; the reply belongs to the buffer that asked
+      (this.syntaxRequests.shift() ?? this.syntaxCache).set(lineIndex, colorMap);
       
       // Trigger Partial Render?
       // For simplicity, just render. The screen buffer diffing handles optimization.
@@ -136,30 +227,40 @@ export class CliEditor {
 
   // --- Lifecycle Methods ---
   
-  public run(): Promise<{ saved: boolean; content: string }> {
+  public run(): Promise<EditorResult> {
     this.setupTerminal(); 
     this.render();
-    this.swapManager.start();
+    if (this.swapEnabled && !this.readOnly) {
+        this.swapManager.start(); // Nothing to recover in a read-only buffer
+    }
     
     return new Promise((resolve, reject) => {
       
       const performCleanup = (callback?: () => void) => {
         this.swapManager.stop(); // Stop swap interval
         this.syntaxWorker?.terminate();
+        this.closeLargeFiles();
 
         if (this.isCleanedUp) {
             if (callback) callback();
             return;
         }
 
+        // Hosted: the terminal (and restoring it) belongs to the host application
+        if (!this.manageTerminal) {
+            this.isCleanedUp = true;
+            if (callback) callback();
+            return;
+        }
+
         // 1. Remove listeners immediately
         this.inputStream.removeAllListeners('keypress');
-        process.stdout.removeAllListeners('resize');
+        this.outputStream.removeListener('resize', this.handleResize);
         
         // 2. (FIX GHOST TUI) Write exit sequence and use callback to ensure it's written 
         // before Node.js fully releases the TTY.
         // Disable mouse tracking (1000 and 1006)
-        process.stdout.write(
+        this.outputStream.write(
             ANSI.CLEAR_SCREEN + ANSI.MOVE_CURSOR_TOP_LEFT + ANSI.SHOW_CURSOR + ANSI.EXIT_ALTERNATE_SCREEN + '\x1b[?1000l' + '\x1b[?1006l', 
             () => {
                 // 3. Disable TTY raw mode and pause stdin after screen is cleared
@@ -174,7 +275,10 @@ export class CliEditor {
       };
 
       this.resolvePromise = (value) => {
-        performCleanup(() => resolve(value));
+        performCleanup(() => {
+          this.emit('quit', value);
+          resolve(value);
+        });
       };
       
       this.rejectPromise = (reason) => {
@@ -184,6 +288,13 @@ export class CliEditor {
   }
 
   private setupTerminal(): void {
+    // Hosted: size the editor, but leave raw mode, the screen and input to the host,
+    // which forwards keys to handleKeypressEvent() and resizes to handleResize()/setRegion()
+    if (!this.manageTerminal) {
+      this.updateScreenSize();
+      return;
+    }
+
     // If we are using a custom inputStream (re-opened TTY), it might be a ReadStream which is TTY.
     // Check if it is TTY
     if (!this.inputStream.isTTY && !process.stdin.isTTY) {
@@ -191,19 +302,16 @@ export class CliEditor {
        // But if inputStream is our manually opened TTY, isTTY should be true.
     }
     
-    if (!process.stdout.isTTY) {
+    // Custom output streams (PTY, SSH channel, socket) are trusted to be terminals
+    if (this.outputStream === process.stdout && !process.stdout.isTTY) {
       throw new Error('Editor requires a TTY environment (stdout).');
     }
 
+    // ScreenBuffer covers the FULL terminal size (rows, cols) to handle status bar rendering too.
     this.updateScreenSize();
-    this.screenBuffer.resize(this.screenRows + 2, this.screenCols); // +2 for Status Bar space if needed? 
-    // screenRows = stdout.rows - 2. 
-    // ScreenBuffer should cover the FULL terminal size (rows, cols) to handle status bar rendering too.
-    // So pass process.stdout.rows.
-    this.screenBuffer.resize(process.stdout.rows, process.stdout.columns);
 
     // Enter alternate screen and hide cursor + Enable SGR Mouse (1006) and Button Event (1000)
-    process.stdout.write(ANSI.ENTER_ALTERNATE_SCREEN + ANSI.HIDE_CURSOR + ANSI.CLEAR_SCREEN + '\x1b[?1000h' + '\x1b[?1006h');
+    this.outputStream.write(ANSI.ENTER_ALTERNATE_SCREEN + ANSI.HIDE_CURSOR + ANSI.CLEAR_SCREEN + '\x1b[?1000h' + '\x1b[?1006h');
     
     if (this.inputStream.setRawMode) {
         this.inputStream.setRawMode(true);
@@ -214,19 +322,53 @@ export class CliEditor {
     // Setup keypress listener
     keypress(this.inputStream);
     this.inputStream.on('keypress', this.handleKeypressEvent.bind(this)); 
-    process.stdout.on('resize', this.handleResize.bind(this));
+    this.outputStream.on('resize', this.handleResize);
   }
 
-  private handleResize(this: CliEditor): void {
+  /**
+   * Re-reads the terminal size and redraws. Bound to the output stream's 'resize'
+   * event; embedders with a custom size source can call it directly.
+   */
+  public handleResize = (): void => {
+    if (this.isCleanedUp) return;
     this.updateScreenSize();
-    this.screenBuffer.resize(process.stdout.rows, process.stdout.columns);
     this.render();
+  };
+
+  /**
+   * The active buffer's content as an array of lines. Returns a copy; assigning
+   * replaces the whole content (edit through `document` for anything incremental).
+   */
+  public get lines(): string[] {
+    return this.document.getLines();
+  }
+
+  public set lines(lines: string[]) {
+    this.document.restore(TextDocument.fromLines(lines).snapshot());
+    this.history.clear(); // Recorded edits don't apply to the new content
+  }
+
+  /**
+   * Moves the editor to another area of the terminal (null = full screen) and redraws.
+   */
+  public setRegion(region: Rect | null): void {
+    this.region = region;
+    this.handleResize();
   }
 
   private updateScreenSize(this: CliEditor): void {
-    this.screenRows = process.stdout.rows - 2; 
-    this.screenCols = process.stdout.columns;
-    this.screenStartRow = 1; 
+    let rows: number, columns: number;
+    if (this.region) {
+      ({ rows, cols: columns } = this.region);
+      this.screenBuffer.resize(rows, columns, { top: this.region.top, left: this.region.left });
+    } else {
+      ({ rows, columns } = this.getTerminalSize());
+      this.screenBuffer.resize(rows, columns);
+    }
+    // Two rows are reserved for the status bar; panes split the rest.
+    // Coordinates are relative to the region: the ScreenBuffer applies its origin.
+    this.textArea = { top: 0, left: 0, rows: rows - 2, cols: columns };
+    this.layoutPanes();
   }
 }
 
@@ -242,4 +384,10 @@ Object.assign(CliEditor.prototype, historyMethods);
 Object.assign(CliEditor.prototype, ioMethods);
 Object.assign(CliEditor.prototype, keyHandlingMethods);
 Object.assign(CliEditor.prototype, selectionMethods);
-Object.assign(CliEditor.prototype, syntaxMethods);
\ No newline at end of file
+Object.assign(CliEditor.prototype, syntaxMethods);
+Object.assign(CliEditor.prototype, eventMethods);
+Object.assign(CliEditor.prototype, bufferMethods);
+Object.assign(CliEditor.prototype, paneMethods);
+Object.assign(CliEditor.prototype, largeFileMethods);
+Object.assign(CliEditor.prototype, hexMethods);
+Object.assign(CliEditor.prototype, undoTreeMethods);
\ No newline at end of file
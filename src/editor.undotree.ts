@@ -0,0 +1,188 @@
+// src/editor.undotree.ts
+
+import { CliEditor } from './editor.js';
+import { ANSI, KEYS } from './constants.js';
+import { HistoryBranch, HistoryEntry } from './history.js';
+import { CursorState } from './types.js';
+
+/**
+ * Methods for the branching undo history: switching between branches, going
+ * back in time, and the undo tree overlay that lists the branches.
+ */
+
+// Widest the overlay gets (cells)
+const OVERLAY_WIDTH = 64;
+
+/**
+ * Parses a duration like '30', '30s', '5m', '5 minutes' or '1h' into milliseconds
+ * (plain numbers are seconds).
+ */
+function parseDuration(text: string): number | null {
+    const match = text.trim().match(/^(\d+(?:\.\d+)?)\s*(s|secs?|seconds?|m|mins?|minutes?|h|hours?)?$/i);
+    if (!match) return null;
+    const unit = (match[2] ?? 's')[0].toLowerCase();
+    return parseFloat(match[1]) * (unit === 'h' ? 3600_000 : unit === 'm' ? 60_000 : 1000);
+}
+
+/**
+ * Formats a step's time as 'HH:MM:SS (5 min ago)'.
+ */
+function formatTime(time: number, now: number): string {
+    const date = new Date(time);
+    const clock = [date.getHours(), date.getMinutes(), date.getSeconds()]
+        .map(part => String(part).padStart(2, '0')).join(':');
+    const seconds = Math.max(0, Math.round((now - time) / 1000));
+    const age = seconds < 60 ? `${seconds} s` : seconds < 3600 ? `${Math.floor(seconds / 60)} min` : `${Math.floor(seconds / 3600)} h`;
+    return `${clock} (${age} ago)`;
+}
+
+/**
+ * Short description of a step's text, e.g. +"hello" (typed) or -"world" (deleted).
+ */
+function describeStep(entry: HistoryEntry): string {
+    const last = entry.edits[entry.edits.length - 1];
+    if (!last) return 'original';
+    const edits = entry.edits.filter(edit => edit.type === last.type);
+    // Backspace runs delete from right to left
+    const backward = edits.length > 1 && (edits[1].at.y < edits[0].at.y || (edits[1].at.y === edits[0].at.y && edits[1].at.x < edits[0].at.x));
+    if (backward) edits.reverse();
+    const text = edits.map(edit => edit.text).join('').replace(/\n/g, '↵');
+    return `${last.type === 'insert' ? '+' : '-'}"${text.length > 16 ? text.slice(0, 15) + '…' : text}"`;
+}
+
+/**
+ * Restores the state returned by a history move and reports it.
+ */
+function applyHistoryMove(this: CliEditor, state: CursorState, message: string): void {
+    this.loadState(state);
+    this.setDirtyFromHistory();
+    this.invalidateSyntaxCache();
+    this.setStatusMessage(message, 3000);
+}
+
+/**
+ * Moves to the tip of the next (1) or previous (-1) undo branch.
+ */
+function switchUndoBranch(this: CliEditor, direction: 1 | -1): void {
+    if (this.guardReadOnly()) return;
+    this.saveState();
+    const state = this.history.switchBranch(this.document, direction);
+    if (!state) {
+        this.setStatusMessage('No other undo branches');
+        return;
+    }
+    const branches = this.history.getBranches();
+    const index = branches.findIndex(branch => branch.active);
+    this.applyHistoryMove(state, `Undo branch ${index + 1} of ${branches.length}`);
+}
+
+/**
+ * Enters the prompt for going back in time.
+ */
+function startTimeTravel(this: CliEditor): void {
+    if (this.guardReadOnly()) return;
+    this.mode = 'time_travel';
+    this.timeTravelQuery = '';
+}
+
+/**
+ * Goes back to the state from the given duration ago ('30s', '5m', ...).
+ */
+function travelBack(this: CliEditor, duration: string): void {
+    const ms = parseDuration(duration);
+    if (ms === null) {
+        this.setStatusMessage(`Invalid duration: ${duration} (e.g. 30s, 5m, 1h)`);
+        return;
+    }
+    this.saveState();
+    const state = this.history.goBack(this.document, ms);
+    if (!state) {
+        this.setStatusMessage(`No changes in the last ${duration}`);
+        return;
+    }
+    this.applyHistoryMove(state, `Went back to ${formatTime(this.history.currentEntry.time, Date.now())}`);
+}
+
+/**
+ * Opens the undo tree overlay, with the current branch selected.
+ */
+function openUndoTree(this: CliEditor): void {
+    if (this.guardReadOnly()) return;
+    this.saveState();
+    const branches = this.history.getBranches();
+    this.undoTreeIndex = Math.max(0, branches.findIndex(branch => branch.active));
+    this.mode = 'undo_tree';
+}
+
+/**
+ * Handles keys while the undo tree overlay is open: Up/Down select a branch,
+ * Enter goes to its newest state, Escape closes the overlay.
+ */
+function handleUndoTreeKeys(this: CliEditor, key: string): void {
+    const branches = this.history.getBranches();
+    const command = this.keymap.get(key);
+    if (key === KEYS.ARROW_UP) {
+        this.undoTreeIndex = Math.max(0, this.undoTreeIndex - 1);
+    } else if (key === KEYS.ARROW_DOWN) {
+        this.undoTreeIndex = Math.min(branches.length - 1, this.undoTreeIndex + 1);
+    } else if (key === KEYS.ENTER) {
+        this.mode = 'edit';
+        const branch = branches[this.undoTreeIndex];
+        const state = branch && this.history.goTo(this.document, branch.tip);
+        if (state) this.applyHistoryMove(state, `Undo branch ${this.undoTreeIndex + 1} of ${branches.length}`);
+    } else if (key === KEYS.ESCAPE || key === KEYS.CTRL_Q || command === 'undoTree') {
+        this.mode = 'edit';
+    }
+}
+
+/**
+ * Draws the undo tree overlay at the top right of the focused pane: one row
+ * per branch (oldest first) with its time, length and last edit. `*` marks the
+ * branch of the current state; `saved` marks the last saved state (`saved -2`: two steps back).
+ */
+function renderUndoTree(this: CliEditor): void {
+    const branches = this.history.getBranches();
+    const current = this.history.currentEntry;
+    const now = Date.now();
+    const width = Math.min(OVERLAY_WIDTH, this.screenCols);
+    const rows = Math.min(branches.length + 2, this.screenRows);
+    const left = this.screenStartCol - 1 + this.screenCols - width;
+    const top = this.screenStartRow - 1;
+    if (width < 4 || rows < 3) return;
+
+    const title = ' Undo Tree ';
+    this.screenBuffer.putString(left, top, ('┌' + title + '─'.repeat(width)).slice(0, width - 1) + '┐', ANSI.DIM);
+    this.screenBuffer.putString(left, top + rows - 1, '└' + '─'.repeat(width - 2) + '┘', ANSI.DIM);
+
+    // Keep the selected row visible
+    const visible = rows - 2;
+    const first = Math.max(0, Math.min(this.undoTreeIndex - visible + 1, branches.length - visible));
+    for (let row = 0; row < visible; row++) {
+        const index = first + row;
+        const line = formatBranch(branches[index], index, current, now);
+        const y = top + 1 + row;
+        this.screenBuffer.put(left, y, '│', ANSI.DIM);
+        this.screenBuffer.putString(left + 1, y, line.padEnd(width - 2).slice(0, width - 2), index === this.undoTreeIndex ? ANSI.INVERT_COLORS : '');
+        this.screenBuffer.put(left + width - 1, y, '│', ANSI.DIM);
+    }
+}
+
+function formatBranch(branch: HistoryBranch, index: number, current: HistoryEntry, now: number): string {
+    const marker = branch.active ? '*' : ' ';
+    const tags: string[] = [];
+    if (branch.tip === current) tags.push('current');
+    if (branch.saved === 0) tags.push('saved');
+    else if (branch.saved !== null) tags.push(`saved -${branch.saved}`);
+    const position = tags.length > 0 ? ` (${tags.join(', ')})` : '';
+    return `${marker}${index + 1}. ${formatTime(branch.tip.time, now)}  ${branch.steps} step${branch.steps === 1 ? '' : 's'}  ${describeStep(branch.tip)}${position}`;
+}
+
+export const undoTreeMethods = {
+    applyHistoryMove,
+    switchUndoBranch,
+    startTimeTravel,
+    travelBack,
+    openUndoTree,
+    handleUndoTreeKeys,
+    renderUndoTree,
+};
@@ -0,0 +1,218 @@
+// src/editorconfig.ts
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { FileEncoding, LineEnding } from './types.js';
+import { parseEncoding } from './encoding.js';
+
+/**
+ * EditorConfig (https://editorconfig.org) support: finds the `.editorconfig`
+ * files above an edited file, and resolves the properties of the sections
+ * whose glob matches it. Closer files and later sections win.
+ */
+
+/**
+ * The supported properties of a file, resolved from its `.editorconfig` files.
+ */
+export interface EditorConfig {
+    useTabs?: boolean; // indent_style
+    indentSize?: number; // indent_size ('tab' resolves to the tab width)
+    tabWidth?: number; // tab_width (defaults to indent_size)
+    endOfLine?: LineEnding; // end_of_line ('cr' is not supported and ignored)
+    charset?: { encoding: FileEncoding, bom: boolean };
+    trimTrailingWhitespace?: boolean;
+    insertFinalNewline?: boolean;
+}
+
+interface EditorConfigSection {
+    glob: string;
+    properties: Record<string, string>;
+}
+
+interface EditorConfigFile {
+    root: boolean;
+    sections: EditorConfigSection[];
+}
+
+const CONFIG_NAME = '.editorconfig';
+
+/**
+ * Parses the INI-style content of an `.editorconfig` file.
+ * Keys are case-insensitive; so are the values of the supported properties.
+ */
+export function parseEditorConfig(text: string): EditorConfigFile {
+    const file: EditorConfigFile = { root: false, sections: [] };
+    let section: EditorConfigSection | null = null;
+
+    for (const rawLine of text.split(/\r?\n/)) {
+        const line = rawLine.trim();
+        if (!line || line.startsWith('#') || line.startsWith(';')) continue;
+
+        const header = /^\[(.*)\]$/.exec(line);
+        if (header) {
+            section = { glob: header[1], properties: {} };
+            file.sections.push(section);
+            continue;
+        }
+
+        const index = line.indexOf('=');
+        if (index === -1) continue;
+        const key = line.slice(0, index).trim().toLowerCase();
+        const value = line.slice(index + 1).trim();
+        if (section) {
+            section.properties[key] = value;
+        } else if (key === 'root') {
+            file.root = value.toLowerCase() === 'true'; // Only valid before the first section
+        }
+    }
+    return file;
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
+
+/**
+ * Translates an EditorConfig glob into a regular expression source.
+ * Numeric ranges ({1..3}) become capture groups, checked by matchGlob.
+ */
+function globToSource(glob: string, ranges: Array<[number, number]>): string {
+    let source = '';
+    let i = 0;
+    while (i < glob.length) {
+        const c = glob[i];
+        if (c === '\\' && i + 1 < glob.length) {
+            source += escapeRegExp(glob[i + 1]);
+            i += 2;
+            continue;
+        }
+        if (c === '*') {
+            const double = glob[i + 1] === '*';
+            source += double ? '.*' : '[^/]*';
+            i += double ? 2 : 1;
+            continue;
+        }
+        if (c === '?') {
+            source += '[^/]';
+        } else if (c === '[' && glob.indexOf(']', i) > i + 1) {
+            const end = glob.indexOf(']', i);
+            const body = glob.slice(i + 1, end).replace(/\\/g, '\\\\');
+            source += body.startsWith('!') ? `[^${body.slice(1)}]` : `[${body}]`;
+            i = end + 1;
+            continue;
+        } else if (c === '{' && glob.indexOf('}', i) > i) {
+            const end = glob.indexOf('}', i);
+            const body = glob.slice(i + 1, end);
+            const range = /^([+-]?\d+)\.\.([+-]?\d+)$/.exec(body);
+            if (range) {
+                ranges.push([parseInt(range[1], 10), parseInt(range[2], 10)]);
+                source += '([+-]?\\d+)';
+            } else if (body.includes(',')) {
+                source += '(?:' + body.split(',').map(alt => globToSource(alt, ranges)).join('|') + ')';
+            } else {
+                source += escapeRegExp(`{${body}}`);
+            }
+            i = end + 1;
+            continue;
+        } else {
+            source += escapeRegExp(c);
+        }
+        i++;
+    }
+    return source;
+}
+
+/**
+ * Tests a section glob against a path relative to the `.editorconfig` directory
+ * ('/' separated). Globs without a '/' match the file name in any subdirectory.
+ */
+export function matchGlob(glob: string, relativePath: string): boolean {
+    const ranges: Array<[number, number]> = [];
+    const anchored = glob.includes('/');
+    const pattern = anchored ? glob.replace(/^\//, '') : glob;
+    const source = globToSource(pattern, ranges);
+    const match = new RegExp(`^${anchored ? '' : '(?:.*/)?'}${source}$`).exec(relativePath);
+    if (!match) return false;
+
+    return ranges.every(([from, to], i) => {
+        const value = match[i + 1];
+        if (value === undefined) return true; // In an alternative that didn't match
+        const n = parseInt(value, 10);
+        return n >= Math.min(from, to) && n <= Math.max(from, to);
+    });
+}
+
+/**
+ * Converts raw properties into an EditorConfig. Unknown or invalid
+ * values, and 'unset', leave a property undefined.
+ */
+export function resolveProperties(properties: Record<string, string>): EditorConfig {
+    const value = (key: string) => {
+        const raw = properties[key]?.toLowerCase();
+        return raw === 'unset' ? undefined : raw;
+    };
+    const size = (key: string) => {
+        const n = parseInt(value(key) ?? '', 10);
+        return n > 0 ? n : undefined;
+    };
+    const flag = (key: string) => {
+        const raw = value(key);
+        return raw === 'true' ? true : raw === 'false' ? false : undefined;
+    };
+
+    const config: EditorConfig = {};
+    const indentStyle = value('indent_style');
+    if (indentStyle === 'tab' || indentStyle === 'space') config.useTabs = indentStyle === 'tab';
+
+    config.tabWidth = size('tab_width');
+    config.indentSize = value('indent_size') === 'tab' ? config.tabWidth : size('indent_size');
+    if (config.tabWidth === undefined && value('indent_size') !== 'tab') config.tabWidth = config.indentSize;
+
+    const endOfLine = value('end_of_line');
+    if (endOfLine === 'lf' || endOfLine === 'crlf') config.endOfLine = endOfLine === 'lf' ? 'LF' : 'CRLF';
+
+    const charset = value('charset');
+    if (charset) config.charset = parseEncoding(charset) ?? undefined;
+
+    config.trimTrailingWhitespace = flag('trim_trailing_whitespace');
+    config.insertFinalNewline = flag('insert_final_newline');
+
+    // Drop the properties that weren't set
+    for (const key of Object.keys(config) as Array<keyof EditorConfig>) {
+        if (config[key] === undefined) delete config[key];
+    }
+    return config;
+}
+
+/**
+ * Resolves the EditorConfig of a file: reads `.editorconfig` from the file's
+ * directory upward (until one with `root = true`) and applies the matching sections.
+ * Unreadable config files are skipped.
+ */
+export async function loadEditorConfig(filepath: string): Promise<EditorConfig> {
+    const file = path.resolve(filepath);
+    const configs: Array<{ dir: string, config: EditorConfigFile }> = [];
+
+    let dir = path.dirname(file);
+    for (;;) {
+        try {
+            const config = parseEditorConfig(await fs.readFile(path.join(dir, CONFIG_NAME), 'utf-8'));
+            configs.unshift({ dir, config }); // Outermost first, so closer files override
+            if (config.root) break;
+        } catch {
+            // No (readable) config in this directory
+        }
+        const parent = path.dirname(dir);
+        if (parent === dir) break;
+        dir = parent;
+    }
+
+    const properties: Record<string, string> = {};
+    for (const { dir, config } of configs) {
+        const relativePath = path.relative(dir, file).split(path.sep).join('/');
+        for (const section of config.sections) {
+            if (matchGlob(section.glob, relativePath)) Object.assign(properties, section.properties);
+        }
+    }
+    return resolveProperties(properties);
+}
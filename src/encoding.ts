@@ -0,0 +1,171 @@
+// src/encoding.ts
+
+import { FileEncoding } from './types.js';
+
+/**
+ * Character encoding detection and conversion for files on disk.
+ * The editor works on strings; these helpers decode a file's bytes on load
+ * and encode the content back to the same encoding (and BOM) on save.
+ */
+
+export interface DecodedText {
+    text: string;
+    encoding: FileEncoding;
+    bom: boolean;
+}
+
+const BOMS: Array<[FileEncoding, number[]]> = [
+    ['utf-8', [0xEF, 0xBB, 0xBF]],
+    ['utf-16le', [0xFF, 0xFE]],
+    ['utf-16be', [0xFE, 0xFF]],
+];
+
+const ENCODING_LABELS: Record<FileEncoding, string> = {
+    'utf-8': 'UTF-8',
+    'utf-16le': 'UTF-16LE',
+    'utf-16be': 'UTF-16BE',
+    'latin1': 'Latin-1',
+};
+
+// Accepted spellings in the encoding prompt
+const ENCODING_ALIASES: Record<string, FileEncoding> = {
+    'utf8': 'utf-8',
+    'utf-8': 'utf-8',
+    'utf16le': 'utf-16le',
+    'utf-16le': 'utf-16le',
+    'utf16be': 'utf-16be',
+    'utf-16be': 'utf-16be',
+    'latin1': 'latin1',
+    'latin-1': 'latin1',
+    'iso-8859-1': 'latin1',
+};
+
+/**
+ * Status bar label, e.g. 'UTF-8', 'UTF-8 BOM', 'Latin-1'.
+ */
+export function formatEncoding(encoding: FileEncoding, bom: boolean): string {
+    return ENCODING_LABELS[encoding] + (bom ? ' BOM' : '');
+}
+
+/**
+ * Parses an encoding name typed by the user ('utf8', 'UTF-16LE', 'latin1', ...).
+ * A '-bom' / ' bom' suffix requests a byte order mark. Returns null if unknown.
+ */
+export function parseEncoding(name: string): { encoding: FileEncoding, bom: boolean } | null {
+    const normalized = name.trim().toLowerCase();
+    const bom = /[-\s]bom$/.test(normalized);
+    const encoding = ENCODING_ALIASES[normalized.replace(/[-\s]bom$/, '')];
+    if (!encoding || (bom && encoding === 'latin1')) return null;
+    return { encoding, bom };
+}
+
+function swapBytes(bytes: Buffer): Buffer {
+    const swapped = Buffer.from(bytes.subarray(0, bytes.length - (bytes.length % 2)));
+    return swapped.swap16();
+}
+
+/**
+ * Decodes bytes in a given encoding, skipping that encoding's BOM if present.
+ */
+export function decodeAs(bytes: Buffer, encoding: FileEncoding): DecodedText {
+    const mark = BOMS.find(([name]) => name === encoding)?.[1];
+    const bom = !!mark && bytes.length >= mark.length && mark.every((byte, i) => bytes[i] === byte);
+    const body = bom ? bytes.subarray(mark!.length) : bytes;
+
+    let text: string;
+    switch (encoding) {
+        case 'utf-16le': text = body.toString('utf16le'); break;
+        case 'utf-16be': text = swapBytes(body).toString('utf16le'); break;
+        case 'latin1': text = body.toString('latin1'); break;
+        default: text = body.toString('utf-8');
+    }
+    return { text, encoding, bom };
+}
+
+/**
+ * Detects the encoding of a file's bytes: a BOM wins, then valid UTF-8,
+ * otherwise the bytes are taken as Latin-1 (which can represent any byte).
+ */
+export function decodeText(bytes: Buffer): DecodedText {
+    for (const [encoding] of BOMS) {
+        const decoded = decodeAs(bytes, encoding);
+        if (decoded.bom) return decoded;
+    }
+    try {
+        const text = new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+        return { text, encoding: 'utf-8', bom: false };
+    } catch {
+        return { text: bytes.toString('latin1'), encoding: 'latin1', bom: false };
+    }
+}
+
+/**
+ * Encodes text for writing to disk, prefixed with the BOM if requested.
+ * Characters that Latin-1 cannot represent are written as '?'.
+ */
+export function encodeText(text: string, encoding: FileEncoding, bom: boolean): Buffer {
+    let body: Buffer;
+    switch (encoding) {
+        case 'utf-16le': body = Buffer.from(text, 'utf16le'); break;
+        case 'utf-16be': body = Buffer.from(text, 'utf16le').swap16(); break;
+        // eslint-disable-next-line no-control-regex
+        case 'latin1': body = Buffer.from(text.replace(/[^\u0000-\u00ff]/g, '?'), 'latin1'); break;
+        default: body = Buffer.from(text, 'utf-8');
+    }
+    const mark = bom ? BOMS.find(([name]) => name === encoding)?.[1] : undefined;
+    return mark ? Buffer.concat([Buffer.from(mark), body]) : body;
+}
+
+/**
+ * Returns true if every character of the text can be written in the encoding.
+ */
+export function canEncode(text: string, encoding: FileEncoding): boolean {
+    // eslint-disable-next-line no-control-regex
+    return encoding !== 'latin1' || /^[\u0000-\u00ff]*$/.test(text);
+}
+
+// Bytes inspected when deciding whether a file is binary
+const BINARY_SAMPLE_SIZE = 8000;
+// Share of suspicious bytes (control characters, invalid UTF-8) above which a file is binary
+const BINARY_RATIO = 0.3;
+// Control characters that occur in text: backspace, tab, LF, form feed, CR, escape
+const TEXT_CONTROLS = [0x08, 0x09, 0x0A, 0x0C, 0x0D, 0x1B];
+
+/**
+ * Returns the length of the valid UTF-8 sequence starting at `i`, or 0 if
+ * there is none. A sequence cut off by the end of the bytes counts as valid.
+ */
+function utf8SequenceLength(bytes: Buffer, i: number): number {
+    const lead = bytes[i];
+    const length = lead >= 0xC2 && lead <= 0xDF ? 2 : lead >= 0xE0 && lead <= 0xEF ? 3 : lead >= 0xF0 && lead <= 0xF4 ? 4 : 0;
+    for (let j = 1; j < length && i + j < bytes.length; j++) {
+        if ((bytes[i + j] & 0xC0) !== 0x80) return 0;
+    }
+    return length;
+}
+
+/**
+ * Guesses whether bytes are binary data rather than text, from the start of
+ * the data: a NUL byte (UTF-16 with a BOM excepted), or a high share of control
+ * characters and bytes that aren't valid UTF-8. Latin-1 text passes, since
+ * only its accented letters are invalid UTF-8.
+ */
+export function isBinary(bytes: Buffer): boolean {
+    const sample = bytes.subarray(0, BINARY_SAMPLE_SIZE);
+    if (sample.length === 0) return false;
+    if (['utf-16le', 'utf-16be'].includes(decodeText(sample.subarray(0, 2)).encoding)) return false;
+    if (sample.includes(0)) return true;
+
+    let suspicious = 0;
+    for (let i = 0; i < sample.length; i++) {
+        const byte = sample[i];
+        if (byte < 0x20 && !TEXT_CONTROLS.includes(byte)) {
+            suspicious++;
+        } else if (byte >= 0x80) {
+            const length = utf8SequenceLength(sample, i);
+            if (length === 0) suspicious++;
+            else i += length - 1;
+        }
+    }
+    return suspicious / sample.length > BINARY_RATIO;
+}
@@ -0,0 +1,173 @@
+// src/headless.ts
+
+import { PassThrough, Writable } from 'stream';
+import { CliEditor } from './editor.js';
+import { isTextInput, normalizeKeySpec } from './keymap.js';
+import { EditorOptions, EditorResult } from './types.js';
+import type { KeypressEvent } from './vendor/keypress.js';
+import type { ScreenSnapshot } from './screen_buffer.js';
+
+/**
+ * Headless driver for CliEditor: runs a real editor against a virtual terminal,
+ * feeds it scripted keys and exposes what would be on screen.
+ * Intended for regression tests of embeddings without a real TTY.
+ */
+
+export interface HeadlessOptions extends EditorOptions {
+    rows?: number;     // Virtual terminal height (default: 24)
+    columns?: number;  // Virtual terminal width (default: 80)
+    filepath?: string; // Path shown in the status bar and used by saveFile (default: '')
+}
+
+export interface HeadlessScreen extends ScreenSnapshot {
+    cursor: { row: number, col: number }; // 0-based physical cursor position
+}
+
+/**
+ * Output stream standing in for a terminal: discards the ANSI output but
+ * tracks the size and the last cursor position written to it.
+ */
+export class VirtualTerminal extends Writable {
+    public rows: number;
+    public columns: number;
+    public isTTY: boolean = false;
+    public cursor = { row: 0, col: 0 };
+
+    constructor(rows: number, columns: number) {
+        super({ decodeStrings: false });
+        this.rows = rows;
+        this.columns = columns;
+    }
+
+    _write(chunk: string | Buffer, _encoding: BufferEncoding, callback: (error?: Error | null) => void): void {
+        const text = chunk.toString();
+        // The last cursor move of a frame is the physical cursor placement
+        let match: RegExpExecArray | null;
+        // eslint-disable-next-line no-control-regex
+        const cursorRe = /\x1b\[(\d+);(\d+)H/g;
+        while ((match = cursorRe.exec(text)) !== null) {
+            this.cursor = { row: parseInt(match[1], 10) - 1, col: parseInt(match[2], 10) - 1 };
+        }
+        callback();
+    }
+
+    public resize(rows: number, columns: number): void {
+        this.rows = rows;
+        this.columns = columns;
+        this.emit('resize');
+    }
+}
+
+/**
+ * Builds the (ch, key) pair the 'keypress' library would emit for a key spec
+ * such as 'a', 'ctrl+s', 'alt+up' or 'shift+tab'.
+ */
+export function keypressFromSpec(spec: string): [string | undefined, KeypressEvent] {
+    const descriptor = normalizeKeySpec(spec);
+
+    if (descriptor.length === 1 || isTextInput(descriptor)) {
+        return [descriptor, {
+            name: descriptor.toLowerCase(),
+            ctrl: false,
+            meta: false,
+            shift: descriptor !== descriptor.toLowerCase(),
+            sequence: descriptor,
+        }];
+    }
+
+    const parts = descriptor.endsWith('++')
+        ? [...descriptor.slice(0, -2).split('+'), '+']
+        : descriptor.split('+');
+    const name = parts.pop()!;
+    return [undefined, {
+        name,
+        ctrl: parts.includes('ctrl'),
+        meta: parts.includes('alt'),
+        shift: parts.includes('shift'),
+        sequence: descriptor,
+    }];
+}
+
+export class HeadlessEditor {
+    public readonly editor: CliEditor;
+    public readonly terminal: VirtualTerminal;
+    public readonly result: Promise<EditorResult>;
+
+    constructor(content: string = '', options: HeadlessOptions = {}) {
+        const { rows = 24, columns = 80, filepath = '', ...editorOptions } = options;
+        this.terminal = new VirtualTerminal(rows, columns);
+
+        this.editor = new CliEditor(content, filepath, {
+            syntaxWorker: false, // Deterministic highlighting
+            swapFile: false,     // Don't touch the disk
+            undoFile: false,
+            ...editorOptions,
+            inputStream: (editorOptions.inputStream ?? new PassThrough()) as unknown as NodeJS.ReadStream,
+            outputStream: this.terminal,
+        });
+        this.result = this.editor.run();
+    }
+
+    /**
+     * Sends key presses in order (key specs as in EditorOptions.keymap).
+     */
+    public press(...keys: string[]): this {
+        for (const spec of keys) {
+            const [ch, key] = keypressFromSpec(spec);
+            this.editor.handleKeypressEvent(ch as string, key);
+        }
+        return this;
+    }
+
+    /**
+     * Types text character by character ('\n' presses Enter, '\t' presses Tab).
+     */
+    public type(text: string): this {
+        for (const ch of text) {
+            if (ch === '\n') this.press('enter');
+            else if (ch === '\t') this.press('tab');
+            else this.press(ch);
+        }
+        return this;
+    }
+
+    /**
+     * Resizes the virtual terminal (emits 'resize' like a real TTY).
+     */
+    public resize(rows: number, columns: number): this {
+        this.terminal.resize(rows, columns);
+        return this;
+    }
+
+    /**
+     * Waits for pending asynchronous work (saving, clipboard, cleanup) to settle.
+     */
+    public async settle(): Promise<void> {
+        await new Promise(resolve => setImmediate(resolve));
+    }
+
+    /**
+     * Returns the current screen: text rows, style spans and cursor position.
+     */
+    public screen(): HeadlessScreen {
+        return { ...this.editor.screenBuffer.snapshot(), cursor: { ...this.terminal.cursor } };
+    }
+
+    /**
+     * Returns the current screen as plain text, with trailing spaces trimmed.
+     */
+    public text(): string {
+        return this.screen().lines.map(line => line.trimEnd()).join('\n');
+    }
+
+    /**
+     * Closes the editor without saving (if it is still open) and returns its result.
+     */
+    public async close(): Promise<EditorResult> {
+        if (!this.editor.isExiting) {
+            this.editor.isExiting = true;
+            this.editor.resolvePromise?.(this.editor.getResult());
+        }
+        return this.result;
+    }
+}
@@ -1,70 +1,525 @@
 // src/history.ts
 
-import { DocumentState } from './types.js';
+import { TextDocument, TextEdit, TextPosition } from './document.js';
+import { CursorState } from './types.js';
 
 /**
- * Manages the undo/redo history stack for the editor.
+ * Kind of an edit: typing or deleting, whose keystrokes are grouped into one
+ * undo step (see `checkpoint`), or a line command (moving, duplicating or
+ * indenting lines), which always gets a step of its own.
+ */
+export type EditKind = 'insert' | 'delete' | 'move' | 'duplicate' | 'indent';
+
+/**
+ * One undo step: the edits made between two checkpoints, with the cursor
+ * (and selection) before and after them. Steps form a tree: undoing and then
+ * editing starts a new branch instead of discarding the undone steps.
+ */
+export interface HistoryEntry {
+  id: number; // Creation order (the root is 0)
+  parent: HistoryEntry | null;
+  children: HistoryEntry[]; // Oldest first
+  redoChild: HistoryEntry | null; // The child Redo goes to (the newest or last undone one)
+  edits: TextEdit[];
+  before: CursorState;
+  after: CursorState;
+  kind?: EditKind; // Unset for other edits (paste, replace, ...)
+  time: number; // When the step was last extended (ms)
+}
+
+/**
+ * A branch of the history tree, identified by its newest step (a leaf).
+ */
+export interface HistoryBranch {
+  tip: HistoryEntry;
+  steps: number; // Steps from the oldest state to the tip
+  active: boolean; // The branch holding the current state (the one Redo follows)
+  saved: number | null; // Steps back from the tip to the saved state, if it is on this branch
+}
+
+/**
+ * JSON form of a history tree (see `serialize`), with entries linked by id.
+ */
+export interface SerializedHistory {
+  current: number;
+  nextId: number;
+  entries: Array<Omit<HistoryEntry, 'parent' | 'children' | 'redoChild'> & { parent: number | null, redoChild: number | null }>;
+}
+
+// Default pause (ms) after which typing starts a new undo step
+export const UNDO_IDLE_TIME = 1000;
+
+/**
+ * Manages the undo/redo history tree for the editor.
+ * Entries hold the edits themselves (not copies of the document): undo
+ * reverts them in reverse order, redo applies them again. Moving to another
+ * state undoes up to the common ancestor and redoes down to the target.
  */
 export class HistoryManager {
-  private undoHistory: DocumentState[] = [];
-  private redoHistory: DocumentState[] = [];
+  private root: HistoryEntry;
+  private current: HistoryEntry;
+  private nextId = 1;
+  private size = 0; // Steps in the tree (excluding the root)
+  // Edits since the last checkpoint, and the state before the first of them
+  private pending: { edits: TextEdit[], before: CursorState } | null = null;
+  private replaying = false;
+  // The last step, while typing may still be added to it (reset by any move)
+  private openEntry: HistoryEntry | null = null;
+  // The state last saved to disk (null if it isn't in the tree)
+  private saved: HistoryEntry | null;
   private readonly historyLimit: number;
+  private readonly idleTime: number;
 
-  constructor(historyLimit: number = 100) {
+  constructor(historyLimit: number = 100, idleTime: number = UNDO_IDLE_TIME) {
     this.historyLimit = historyLimit;
+    this.idleTime = idleTime;
+    this.root = this.current = this.saved = createRoot();
   }
 
   /**
-   * Saves the current state to the undo history.
-   * This clears the redo history.
+   * Records an edit made to the document. The first edit after a checkpoint
+   * starts a new step (with `state` as its "before" state).
+   * Edits made while undoing or redoing are ignored.
    */
-  public saveState(state: DocumentState): void {
-    // Clear redo history on new action
-    this.redoHistory = [];
+  public record(edit: TextEdit, state: CursorState): void {
+    if (this.replaying) return;
+    if (!this.pending) {
+      this.pending = { edits: [], before: state };
+    }
+    this.pending.edits.push(edit);
+  }
 
-    // Add to undo history
-    this.undoHistory.push(state);
+  /**
+   * Closes the current step: the edits recorded since the last checkpoint become
+   * a new child of the current state, restoring `state` when redone. Does nothing
+   * if there are none.
+   *
+   * Typing and deleting (`kind` 'insert' or 'delete') are added to the previous
+   * step instead if it has the same kind, the edits are only that kind of typing
+   * at the cursor, the cursor hasn't moved since, no more than the idle time has
+   * passed and they don't start a new word.
+   */
+  public checkpoint(state: CursorState, kind?: EditKind): void {
+    if (!this.pending) return;
+    const { edits, before } = this.pending;
+    const now = Date.now();
+    this.pending = null;
 
-    // Maintain history limit
-    if (this.undoHistory.length > this.historyLimit) {
-      this.undoHistory.shift();
+    const last = this.openEntry;
+    if (last && last.kind === kind && isTyping(edits, kind, before) && sameState(last.after, before)
+        && now - last.time <= this.idleTime && !startsWord(last.edits, edits)) {
+      last.edits.push(...edits);
+      last.after = state;
+      last.time = now;
+      return;
     }
+
+    const entry: HistoryEntry = {
+      id: this.nextId++, parent: this.current, children: [], redoChild: null,
+      edits, before, after: state, kind, time: now,
+    };
+    this.current.children.push(entry);
+    this.current.redoChild = entry;
+    this.current = this.openEntry = entry;
+    this.size++;
+    this.prune();
   }
 
   /**
-   * Performs an undo operation.
-   * @param currentState The state *before* undoing, to save to redo stack.
-   * @returns The state to restore (DocumentState) or null if no history.
+   * Reverts the current step in the document.
+   * @returns The state to restore (from before the step) or null if no history.
    */
-  public undo(currentState: DocumentState): DocumentState | null {
-    const previousState = this.undoHistory.pop();
-    if (!previousState) {
+  public undo(document: TextDocument): CursorState | null {
+    if (!this.current.parent) {
       return null; // Nothing to undo
     }
-
-    // Save current state to redo stack
-    this.redoHistory.push(currentState);
-    return previousState;
+    this.openEntry = null;
+    return this.stepUp(document);
   }
 
   /**
-   * Performs a redo operation.
-   * @param currentState The state *before* redoing, to save to undo stack.
-   * @returns The state to restore (DocumentState) or null if no history.
+   * Applies the last undone (or newest) child step again.
+   * @returns The state to restore (from after the step) or null if no history.
    */
-  public redo(currentState: DocumentState): DocumentState | null {
-    const nextState = this.redoHistory.pop();
-    if (!nextState) {
+  public redo(document: TextDocument): CursorState | null {
+    const entry = this.current.redoChild;
+    if (!entry) {
       return null; // Nothing to redo
     }
+    this.openEntry = null;
+    return this.stepDown(document, entry);
+  }
+
+  /**
+   * Moves the document to the state after `target`, through the closest common ancestor.
+   * @returns The state to restore, or null if `target` is already the current state.
+   */
+  public goTo(document: TextDocument, target: HistoryEntry): CursorState | null {
+    if (target === this.current) return null;
+    this.openEntry = null;
+
+    const path: HistoryEntry[] = []; // From the common ancestor (exclusive) down to the target
+    const ancestors = new Set<HistoryEntry>();
+    for (let entry: HistoryEntry | null = this.current; entry; entry = entry.parent) ancestors.add(entry);
+    let common: HistoryEntry = target;
+    while (!ancestors.has(common)) {
+      path.unshift(common);
+      common = common.parent!;
+    }
+
+    let state: CursorState = common.after;
+    while (this.current !== common) state = this.stepUp(document);
+    for (const entry of path) state = this.stepDown(document, entry);
+    return state;
+  }
+
+  /**
+   * Moves to the tip of the next (1) or previous (-1) branch, in the order the
+   * branches were last changed.
+   * @returns The state to restore, or null if there is only one branch.
+   */
+  public switchBranch(document: TextDocument, direction: 1 | -1): CursorState | null {
+    const branches = this.getBranches();
+    if (branches.length < 2) return null;
+    const index = branches.findIndex(branch => branch.active);
+    const target = branches[(index + direction + branches.length) % branches.length];
+    return this.goTo(document, target.tip);
+  }
+
+  /**
+   * Moves to the state the document was in `ms` milliseconds ago (the newest
+   * step made by then, or the oldest state kept).
+   * @returns The state to restore, or null if nothing changed since.
+   */
+  public goBack(document: TextDocument, ms: number): CursorState | null {
+    const cutoff = Date.now() - ms;
+    let target = this.root;
+    for (const entry of this.entries()) {
+      if (entry.time <= cutoff && (entry.time > target.time || (entry.time === target.time && entry.id > target.id))) {
+        target = entry;
+      }
+    }
+    return this.goTo(document, target);
+  }
+
+  /**
+   * All branches (leaves of the tree), oldest first.
+   */
+  public getBranches(): HistoryBranch[] {
+    let activeTip = this.current;
+    while (activeTip.redoChild) activeTip = activeTip.redoChild;
+
+    const branches: HistoryBranch[] = [];
+    for (const entry of this.entries()) {
+      if (entry.children.length > 0) continue;
+      let steps = 0;
+      for (let step = entry; step.parent; step = step.parent) steps++;
+      const saved = this.saved && isAncestor(this.saved, entry) ? distance(this.saved, entry) : null;
+      branches.push({ tip: entry, steps, active: entry === activeTip, saved });
+    }
+    return branches.sort((a, b) => a.tip.id - b.tip.id);
+  }
+
+  /**
+   * The step the document is at (the root if everything is undone).
+   */
+  public get currentEntry(): HistoryEntry {
+    return this.current;
+  }
+
+  /**
+   * The state that was last saved, or null if it was dropped (or the saved
+   * file differs from every state in the tree).
+   */
+  public get savedEntry(): HistoryEntry | null {
+    return this.saved;
+  }
+
+  /**
+   * True if the document is at the saved state, with no edits since.
+   */
+  public get isSaved(): boolean {
+    return !this.pending && this.current === this.saved;
+  }
+
+  /**
+   * Marks the current state as saved. Call `checkpoint` first so no edits are
+   * pending. Typing after it starts a new step, so undo can return to it.
+   */
+  public markSaved(): void {
+    this.saved = this.current;
+    this.openEntry = null;
+  }
+
+  /**
+   * Forgets the saved state, for when the file on disk differs from every
+   * state in the tree (e.g. recovered content or a changed line ending).
+   */
+  public markUnsaved(): void {
+    this.saved = null;
+  }
+
+  /**
+   * Converts the tree into plain data (for the undo file).
+   */
+  public serialize(): SerializedHistory {
+    const entries: SerializedHistory['entries'] = [];
+    for (const entry of this.entries()) {
+      const { edits, before, after, kind, time } = entry;
+      entries.push({
+        id: entry.id, parent: entry.parent?.id ?? null, redoChild: entry.redoChild?.id ?? null,
+        edits, before, after, kind, time,
+      });
+    }
+    entries.sort((a, b) => a.id - b.id);
+    return { current: this.current.id, nextId: this.nextId, entries };
+  }
+
+  /**
+   * Replaces the history with a serialized tree whose current state matches the
+   * document (and counts as saved). With `document`, every step is first replayed
+   * on a copy of it. Throws if the data is malformed or doesn't fit the document;
+   * the history is then left as it was.
+   */
+  public load(data: SerializedHistory, document?: TextDocument): void {
+    const byId = new Map<number, HistoryEntry>();
+    for (const item of data.entries) {
+      if (!Array.isArray(item.edits) || !isCursorState(item.before) || !isCursorState(item.after)) {
+        throw new Error(`Invalid undo step ${item.id}`);
+      }
+      byId.set(item.id, { ...item, parent: null, children: [], redoChild: null });
+    }
+    let root: HistoryEntry | null = null;
+    for (const item of data.entries) {
+      const entry = byId.get(item.id)!;
+      entry.redoChild = item.redoChild === null ? null : byId.get(item.redoChild) ?? null;
+      if (item.parent === null) {
+        root = entry;
+      } else {
+        entry.parent = byId.get(item.parent) ?? null;
+        if (!entry.parent) throw new Error(`Missing undo step ${item.parent}`);
+        entry.parent.children.push(entry);
+      }
+    }
+    const current = byId.get(data.current);
+    if (!root || !current) throw new Error('Invalid undo history');
+    if (document) verifyTree(root, current, document);
 
-    // Save current (undone) state back to undo stack
-    this.undoHistory.push(currentState);
-    return nextState;
+    this.root = root;
+    this.current = this.saved = current;
+    this.nextId = data.nextId;
+    this.size = data.entries.length - 1;
+    this.pending = null;
+    this.openEntry = null;
+    this.prune();
   }
 
   public clear(): void {
-    this.undoHistory = [];
-    this.redoHistory = [];
+    this.root = this.current = this.saved = createRoot();
+    this.size = 0;
+    this.pending = null;
+    this.openEntry = null;
+  }
+
+  private stepUp(document: TextDocument): CursorState {
+    const entry = this.current;
+    this.replay(() => {
+      for (let i = entry.edits.length - 1; i >= 0; i--) {
+        applyEdit(document, entry.edits[i], true);
+      }
+    });
+    entry.parent!.redoChild = entry;
+    this.current = entry.parent!;
+    return entry.before;
+  }
+
+  private stepDown(document: TextDocument, entry: HistoryEntry): CursorState {
+    this.replay(() => {
+      for (const edit of entry.edits) {
+        applyEdit(document, edit, false);
+      }
+    });
+    this.current.redoChild = entry;
+    this.current = entry;
+    return entry.after;
+  }
+
+  private replay(apply: () => void): void {
+    this.replaying = true;
+    try {
+      apply();
+    } finally {
+      this.replaying = false;
+    }
+  }
+
+  /**
+   * All entries of the tree, the root first.
+   */
+  private *entries(): Generator<HistoryEntry> {
+    const stack = [this.root];
+    while (stack.length > 0) {
+      const entry = stack.pop()!;
+      yield entry;
+      stack.push(...entry.children);
+    }
+  }
+
+  /**
+   * Drops the oldest steps until at most `limit` are left (the history limit by
+   * default): the oldest branch that doesn't lead to the current state, or, if
+   * only that branch is left, its first step (which becomes the root).
+   */
+  public prune(limit: number = this.historyLimit): void {
+    while (this.size > Math.max(0, limit)) {
+      const children = this.root.children;
+      const onPath = children.find(child => isAncestor(child, this.current));
+      const dropped = children.find(child => child !== onPath);
+      if (dropped) {
+        children.splice(children.indexOf(dropped), 1);
+        if (this.root.redoChild === dropped) this.root.redoChild = onPath ?? children[children.length - 1] ?? null;
+        if (this.saved && isAncestor(dropped, this.saved)) this.saved = null;
+        this.size -= countSteps(dropped);
+        continue;
+      }
+      const next = onPath!;
+      if (this.saved === this.root) this.saved = null;
+      next.parent = null;
+      next.edits = [];
+      next.kind = undefined;
+      if (this.openEntry === next) this.openEntry = null;
+      this.root = next;
+      this.size--;
+    }
+  }
+}
+
+function createRoot(): HistoryEntry {
+  const state: CursorState = { cursorX: 0, cursorY: 0, selectionAnchor: null };
+  return { id: 0, parent: null, children: [], redoChild: null, edits: [], before: state, after: state, time: Date.now() };
+}
+
+/**
+ * True if `entry` is `descendant` or one of its ancestors.
+ */
+function isAncestor(entry: HistoryEntry, descendant: HistoryEntry): boolean {
+  for (let step: HistoryEntry | null = descendant; step; step = step.parent) {
+    if (step === entry) return true;
   }
-}
\ No newline at end of file
+  return false;
+}
+
+/**
+ * Steps from `ancestor` down to `descendant`.
+ */
+function distance(ancestor: HistoryEntry, descendant: HistoryEntry): number {
+  let steps = 0;
+  for (let step = descendant; step !== ancestor; step = step.parent!) steps++;
+  return steps;
+}
+
+function countSteps(entry: HistoryEntry): number {
+  return entry.children.reduce((count, child) => count + countSteps(child), 1);
+}
+
+function isCursorState(value: CursorState | undefined): boolean {
+  return typeof value?.cursorX === 'number' && typeof value.cursorY === 'number' && value.selectionAnchor !== undefined;
+}
+
+function sameState(a: CursorState, b: CursorState): boolean {
+  return a.cursorX === b.cursorX && a.cursorY === b.cursorY
+    && a.selectionAnchor?.x === b.selectionAnchor?.x && a.selectionAnchor?.y === b.selectionAnchor?.y;
+}
+
+/**
+ * True if the edits are typing or deleting at the cursor (`before`): edits of
+ * that type only, the first inserting at the cursor or deleting around it.
+ */
+function isTyping(edits: TextEdit[], kind: EditKind | undefined, before: CursorState): boolean {
+  if (kind !== 'insert' && kind !== 'delete') return false;
+  if (edits.some(edit => edit.type !== kind)) return false;
+  const cursor = { x: before.cursorX, y: before.cursorY };
+  const first = edits[0];
+  return kind === 'insert'
+    ? notAfter(first.at, cursor) && notAfter(cursor, first.at)
+    : notAfter(first.at, cursor) && notAfter(cursor, endOf(first));
+}
+
+function notAfter(a: TextPosition, b: TextPosition): boolean {
+  return a.y < b.y || (a.y === b.y && a.x <= b.x);
+}
+
+/**
+ * True if the new edits begin a word after whitespace, e.g. typing 'w' after
+ * 'hello ' (or deleting back into the previous word). Words are separated by
+ * whitespace, as for word navigation.
+ */
+function startsWord(previous: TextEdit[], edits: TextEdit[]): boolean {
+  const last = previous[previous.length - 1].text;
+  const next = edits[0].text;
+  return next !== '' && !/\s/.test(next.charAt(0)) && /\s/.test(last.charAt(last.length - 1));
+}
+
+/**
+ * Replays every step of a tree on a copy of `document` (which is at the
+ * `current` state): up to the root, then down into each step and back.
+ * Throws if an edit doesn't fit the text it is applied to.
+ */
+function verifyTree(root: HistoryEntry, current: HistoryEntry, document: TextDocument): void {
+  const copy = new TextDocument(document.getText());
+  const undoStep = (entry: HistoryEntry) => {
+    for (let i = entry.edits.length - 1; i >= 0; i--) applyChecked(copy, entry.edits[i], true);
+  };
+  for (let entry = current; entry.parent; entry = entry.parent) undoStep(entry);
+
+  // Depth-first without recursion (chains can be thousands of steps long)
+  const stack: Array<{ entry: HistoryEntry, next: number }> = [{ entry: root, next: 0 }];
+  while (stack.length > 0) {
+    const top = stack[stack.length - 1];
+    const child = top.entry.children[top.next++];
+    if (child) {
+      for (const edit of child.edits) applyChecked(copy, edit, false);
+      stack.push({ entry: child, next: 0 });
+    } else {
+      stack.pop();
+      if (top.entry.parent) undoStep(top.entry);
+    }
+  }
+}
+
+/**
+ * Like applyEdit, but throws unless the edit's position exists and the text
+ * it removes is the text in the document.
+ */
+function applyChecked(document: TextDocument, edit: TextEdit, reverse: boolean): void {
+  const { at, text } = edit;
+  const fits = (edit.type === 'insert' || edit.type === 'delete') && typeof text === 'string'
+    && at.y >= 0 && at.y < document.lineCount && at.x >= 0 && at.x <= document.getLineLength(at.y);
+  if (!fits) throw new Error('Undo step does not fit the document');
+  if ((edit.type === 'insert') === reverse && document.getTextRange(at, endOf(edit)) !== text) {
+    throw new Error('Undo step does not match the document');
+  }
+  applyEdit(document, edit, reverse);
+}
+
+/**
+ * Applies an edit to the document, or its inverse (`reverse`).
+ */
+function applyEdit(document: TextDocument, edit: TextEdit, reverse: boolean): void {
+  if ((edit.type === 'insert') === reverse) {
+    document.delete(edit.at, endOf(edit));
+  } else {
+    document.insert(edit.at, edit.text);
+  }
+}
+
+/**
+ * Position after the edit's text, counted from `at`.
+ */
+function endOf(edit: TextEdit): TextPosition {
+  const lines = edit.text.split('\n');
+  const last = lines.length - 1;
+  return last === 0
+    ? { x: edit.at.x + edit.text.length, y: edit.at.y }
+    : { x: lines[last].length, y: edit.at.y + last };
+}
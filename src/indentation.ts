@@ -0,0 +1,63 @@
+// src/indentation.ts
+
+/**
+ * Infers how a file is indented, so that Tab, block indent/outdent and
+ * auto-indent continue in the file's own style instead of mixing tabs and spaces.
+ */
+
+export interface Indentation {
+    useTabs: boolean;
+    size: number | null; // Spaces per level (null for tab-indented files)
+}
+
+// Only the start of large files is scanned
+const MAX_SCANNED_LINES = 10000;
+
+/**
+ * Detects the indentation style from the content: tabs vs spaces by the
+ * number of lines indented each way, and the space width by the most common
+ * change of indentation between consecutive lines. Returns null if no line is indented.
+ */
+export function detectIndentation(text: string): Indentation | null {
+    let tabLines = 0;
+    let spaceLines = 0;
+    const deltas = new Map<number, number>();
+    let previousWidth = 0;
+
+    for (const line of text.split(/\r?\n/, MAX_SCANNED_LINES)) {
+        if (!line.trim()) continue; // Blank lines say nothing
+
+        const indent = /^[\t ]*/.exec(line)![0];
+        if (indent.startsWith('\t')) {
+            tabLines++;
+            continue;
+        }
+        // ' * ' inside a block comment is alignment, not indentation
+        if (indent.length === 1 && line[1] === '*') continue;
+
+        if (indent.length > 0) spaceLines++;
+        const delta = Math.abs(indent.length - previousWidth);
+        if (delta >= 2 && delta <= 8) deltas.set(delta, (deltas.get(delta) ?? 0) + 1);
+        previousWidth = indent.length;
+    }
+
+    if (tabLines === 0 && spaceLines === 0) return null;
+    if (tabLines > spaceLines) return { useTabs: true, size: null };
+
+    let size: number | null = null;
+    let best = 0;
+    for (const [delta, count] of deltas) {
+        if (count > best || (count === best && delta < size!)) {
+            size = delta;
+            best = count;
+        }
+    }
+    return { useTabs: false, size };
+}
+
+/**
+ * Status bar label, e.g. 'Spaces: 2' (the indent width) or 'Tabs: 4' (the tab width).
+ */
+export function formatIndentation(useTabs: boolean, size: number): string {
+    return `${useTabs ? 'Tabs' : 'Spaces'}: ${size}`;
+}
@@ -1,14 +1,21 @@
 // src/index.ts
 import { promises as fs } from 'fs';
 import { CliEditor } from './editor.js';
-import { EditorOptions } from './types.js';
-import { SwapManager } from './editor.swap.js';
+import { EditorOptions, EditorResult } from './types.js';
+import { LoadedContent, readBufferContent } from './editor.buffers.js';
+import { decodeText } from './encoding.js';
+import { LARGE_FILE_THRESHOLD } from './large_file.js';
 
 /**
  * Public API function: Opens the editor.
- * Reads the file and initializes CliEditor.
+ * Reads the file(s) and initializes CliEditor. With several paths, each file
+ * opens in its own buffer (the first one active) and `files` in the result
+ * reports per-file save results.
  */
-export async function openEditor(filepath: string, options?: EditorOptions): Promise<{ saved: boolean; content: string }> {
+export async function openEditor(filepath: string | string[], options?: EditorOptions): Promise<EditorResult> {
+  const filepaths = Array.isArray(filepath) ? filepath : [filepath];
+  if (filepaths.length === 0) filepaths.push('');
+
   // 0. Handle Piping (Stdin)
   let pipedContent = '';
   if (!process.stdin.isTTY) {
@@ -17,7 +24,7 @@ export async function openEditor(filepath: string, options?: EditorOptions): Pro
           for await (const chunk of process.stdin) {
               chunks.push(Buffer.from(chunk));
           }
-          pipedContent = Buffer.concat(chunks).toString('utf-8');
+          pipedContent = decodeText(Buffer.concat(chunks)).text;
           
           // CRITICAL: Re-open TTY for user input!
           // We need to bypass the consumed stdin and open the actual terminal device.
@@ -39,33 +46,64 @@ export async function openEditor(filepath: string, options?: EditorOptions): Pro
       }
   }
 
-  // Check for swap file (only if filepath provided)
-  if (filepath && await SwapManager.check(filepath)) {
-      console.log(`\x1b[33mWarning: Swap file detected for ${filepath}. Recovering content...\x1b[0m`);
+  // Check for swap files (only if a filepath is provided, swap files are enabled and the buffer is editable)
+  const useSwap = options?.swapFile !== false && !options?.readOnly;
+  const useUndoFile = options?.undoFile !== false && !options?.readOnly;
+  const loaded: LoadedContent[] = [];
+  for (const [i, path] of filepaths.entries()) {
+      const file = await readBufferContent(path, useSwap, options?.largeFileThreshold ?? LARGE_FILE_THRESHOLD, useUndoFile);
+      if (i === 0 && pipedContent && !file.recovered) {
+          file.content = pipedContent; // Piped content goes to the first buffer
+          file.largeFile?.close();
+          file.largeFile = undefined;
+          file.binary = undefined;
+          file.undoHistory = undefined;
+      }
+      if (file.recovered) {
+          console.log(`\x1b[33mWarning: Swap file detected for ${path}. Recovering content...\x1b[0m`);
+      }
+      loaded.push(file);
+  }
+  if (loaded.some(file => file.recovered)) {
       await new Promise(r => setTimeout(r, 1500));
-      
-      const swapContent = await SwapManager.read(filepath);
-      const editor = new CliEditor(swapContent, filepath, options);
-      editor.isDirty = true; // Mark as dirty manually to avoid potential mixin issues
-      editor.statusMessage = 'RECOVERED FROM SWAP FILE';
-      return editor.run();
   }
 
-  let initialContent = pipedContent; // Default to piped content
-  
-  if (filepath && !initialContent) {
+  // 3. Initialize and run editor
+  const editor = new CliEditor(loaded[0].content, filepaths[0], options);
+  editor.encoding = loaded[0].encoding; // Written back in the encoding it was read in
+  editor.bom = loaded[0].bom;
+  editor.applyEditorConfig(loaded[0].editorConfig);
+  if (loaded[0].largeFile) {
+      editor.attachLargeFile(editor.buffers[0], loaded[0].largeFile);
+  }
+  if (loaded[0].binary) {
+      editor.attachHexView(editor.buffers[0], loaded[0].binary);
+  }
+  if (loaded[0].undoHistory) {
       try {
-        initialContent = await fs.readFile(filepath, 'utf-8');
-      } catch (err) {
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        if ((err as any).code !== 'ENOENT') {
-          throw err;
-        }
+          editor.history.load(loaded[0].undoHistory, editor.document);
+      } catch {
+          // Unusable undo file: start with an empty history
+      }
+  }
+  if (loaded[0].recovered) {
+      editor.isDirty = true; // Mark as dirty manually to avoid potential mixin issues
+      editor.history.markUnsaved();
+      editor.statusMessage = 'RECOVERED FROM SWAP FILE';
+  }
+  for (let i = 1; i < filepaths.length; i++) {
+      const { content, recovered, encoding, bom, editorConfig, largeFile, binary, undoHistory } = loaded[i];
+      const buffer = editor.addBuffer(content, filepaths[i], recovered, encoding, bom, editorConfig);
+      if (largeFile) editor.attachLargeFile(buffer, largeFile);
+      if (binary) editor.attachHexView(buffer, binary);
+      if (undoHistory) {
+          try {
+              buffer.history.load(undoHistory, buffer.document);
+          } catch {
+              // Unusable undo file: start with an empty history
+          }
       }
   }
-
-  // 3. Initialize and run editor
-  const editor = new CliEditor(initialContent, filepath, options);
   return editor.run();
 }
 
@@ -74,5 +112,34 @@ export async function openEditor(filepath: string, options?: EditorOptions): Pro
 export { CliEditor } from './editor.js';
 
 // Export key types for TypeScript users
-export type { DocumentState, EditorMode } from './types.js';
-export type { NormalizedRange } from './editor.selection.js';
\ No newline at end of file
+export type {
+  CursorState,
+  EditorMode,
+  EditorEvents,
+  OutputStream,
+  TerminalSize,
+  Rect,
+  SaveHandler,
+  Validator,
+  ValidationIssue,
+  ContentChangeEvent,
+  CursorChangeEvent,
+  ModeChangeEvent,
+  SaveEvent,
+  QuitEvent,
+  EditorResult,
+  FileEncoding,
+  FileResult,
+  LineEnding,
+} from './types.js';
+export type { NormalizedRange } from './editor.selection.js';
+export { TextDocument } from './document.js';
+export type { TextPosition, TextEdit, DocumentSnapshot } from './document.js';
+export { DEFAULT_KEYMAP, EDITOR_COMMANDS } from './keymap.js';
+
+// Headless driver for testing embeddings without a TTY
+export { HeadlessEditor, VirtualTerminal, keypressFromSpec } from './headless.js';
+export type { HeadlessOptions, HeadlessScreen } from './headless.js';
+export type { ScreenSnapshot, StyleSpan } from './screen_buffer.js';
+export { ANSI } from './constants.js';
+export type { EditorCommand, Keymap } from './keymap.js';
\ No newline at end of file
@@ -0,0 +1,246 @@
+// src/keymap.ts
+
+import { KEYS } from './constants.js';
+import type { KeypressEvent } from './vendor/keypress.js';
+
+/**
+ * Named editor commands that can be bound to keys.
+ */
+export const EDITOR_COMMANDS = [
+    'save', 'saveAndQuit', 'quit',
+    'toggleLineEnding', 'saveWithEncoding', 'reopenWithEncoding', 'toggleHexView',
+    'openFile', 'nextBuffer', 'previousBuffer', 'listBuffers', 'closeBuffer',
+    'splitHorizontal', 'splitVertical', 'closePane', 'nextPane', 'previousPane',
+    'copy', 'cut', 'paste', 'cutLine', 'pasteLine',
+    'undo', 'redo', 'previousUndoBranch', 'nextUndoBranch', 'timeTravel', 'undoTree',
+    'find', 'replace', 'findNext', 'goToLine', 'matchBracket',
+    'moveLinesUp', 'moveLinesDown', 'duplicate', 'indent', 'outdent',
+    'newLine', 'deleteBackward', 'deleteForward',
+    'cursorUp', 'cursorDown', 'cursorLeft', 'cursorRight',
+    'wordLeft', 'wordRight', 'lineStart', 'lineEnd', 'pageUp', 'pageDown',
+    'selectUp', 'selectDown', 'selectLeft', 'selectRight',
+    'scrollUp', 'scrollDown',
+] as const;
+
+export type EditorCommand = typeof EDITOR_COMMANDS[number];
+
+/**
+ * User keymap: key spec (e.g. 'Ctrl+S', 'alt+up') -> command.
+ * Binding a key to `null` removes the default binding.
+ */
+export type Keymap = Record<string, EditorCommand | null>;
+
+/**
+ * Default bindings, keyed by key descriptor.
+ */
+export const DEFAULT_KEYMAP: Readonly<Record<string, EditorCommand>> = {
+    // --- Exit / Save ---
+    [KEYS.CTRL_S]: 'saveAndQuit',
+    [KEYS.CTRL_O]: 'save',
+    [KEYS.CTRL_Q]: 'quit',
+    [KEYS.ALT_L]: 'toggleLineEnding',
+    [KEYS.ALT_E]: 'saveWithEncoding',
+    [KEYS.ALT_R]: 'reopenWithEncoding',
+    [KEYS.ALT_B]: 'toggleHexView',
+
+    // --- Buffers ---
+    [KEYS.CTRL_E]: 'openFile',
+    [KEYS.CTRL_N]: 'nextBuffer',
+    [KEYS.CTRL_P]: 'previousBuffer',
+    [KEYS.CTRL_B]: 'listBuffers',
+    [KEYS.ALT_W]: 'closeBuffer',
+
+    // --- Panes ---
+    [KEYS.ALT_H]: 'splitHorizontal',
+    [KEYS.ALT_V]: 'splitVertical',
+    [KEYS.ALT_X]: 'closePane',
+    [KEYS.ALT_O]: 'nextPane',
+    [KEYS.ALT_P]: 'previousPane',
+
+    // --- Clipboard ---
+    [KEYS.CTRL_C]: 'copy',
+    [KEYS.CTRL_X]: 'cut',
+    [KEYS.CTRL_V]: 'paste',
+    [KEYS.CTRL_K]: 'cutLine',
+    [KEYS.CTRL_U]: 'pasteLine',
+
+    // --- History ---
+    [KEYS.CTRL_Z]: 'undo',
+    [KEYS.CTRL_Y]: 'redo',
+    [KEYS.ALT_J]: 'previousUndoBranch',
+    [KEYS.ALT_K]: 'nextUndoBranch',
+    [KEYS.ALT_T]: 'timeTravel',
+    [KEYS.ALT_U]: 'undoTree',
+
+    // --- Search ---
+    [KEYS.CTRL_W]: 'find',
+    [KEYS.CTRL_R]: 'replace',
+    [KEYS.CTRL_G]: 'findNext',
+    [KEYS.CTRL_L]: 'goToLine',
+    [KEYS.CTRL_M]: 'matchBracket',
+
+    // --- Editing ---
+    [KEYS.ENTER]: 'newLine',
+    [KEYS.BACKSPACE]: 'deleteBackward',
+    [KEYS.DELETE]: 'deleteForward',
+    [KEYS.TAB]: 'indent',
+    [KEYS.SHIFT_TAB]: 'outdent',
+    [KEYS.ALT_UP]: 'moveLinesUp',
+    [KEYS.ALT_DOWN]: 'moveLinesDown',
+    [KEYS.CTRL_D]: 'duplicate',
+
+    // --- Navigation ---
+    [KEYS.ARROW_UP]: 'cursorUp',
+    [KEYS.ARROW_DOWN]: 'cursorDown',
+    [KEYS.ARROW_LEFT]: 'cursorLeft',
+    [KEYS.ARROW_RIGHT]: 'cursorRight',
+    [KEYS.ALT_LEFT]: 'wordLeft',
+    [KEYS.ALT_RIGHT]: 'wordRight',
+    [KEYS.HOME]: 'lineStart',
+    [KEYS.END]: 'lineEnd',
+    [KEYS.PAGE_UP]: 'pageUp',
+    [KEYS.PAGE_DOWN]: 'pageDown',
+    [KEYS.SCROLL_UP]: 'scrollUp',
+    [KEYS.SCROLL_DOWN]: 'scrollDown',
+
+    // --- Selection ---
+    [KEYS.CTRL_ARROW_UP]: 'selectUp',
+    [KEYS.CTRL_ARROW_DOWN]: 'selectDown',
+    [KEYS.CTRL_ARROW_LEFT]: 'selectLeft',
+    [KEYS.CTRL_ARROW_RIGHT]: 'selectRight',
+};
+
+/**
+ * Commands shown on the help line, in order, with their labels.
+ */
+const HELP_COMMANDS: Array<[EditorCommand, string]> = [
+    ['saveAndQuit', 'Save & Quit'],
+    ['save', 'Save'],
+    ['quit', 'Quit'],
+    ['find', 'Find'],
+    ['replace', 'Replace'],
+    ['goToLine', 'Go to Line'],
+];
+
+const MODIFIER_ORDER = ['ctrl', 'alt', 'shift'];
+const MODIFIER_ALIASES: Record<string, string> = { control: 'ctrl', meta: 'alt', option: 'alt' };
+const NAME_ALIASES: Record<string, string> = { return: 'enter', esc: 'escape', del: 'delete', space: ' ' };
+
+// eslint-disable-next-line no-control-regex
+const CONTROL_RE = /[\u0000-\u001f\u007f-\u009f]/;
+// eslint-disable-next-line no-control-regex
+const NON_ASCII_RE = /[^\u0000-\u007f]/;
+
+/**
+ * Returns true if a key descriptor is text to insert rather than a key name:
+ * a printable ASCII character, or a string of printable non-ASCII input
+ * (an accented letter, an emoji, or a chunk committed by an IME).
+ * Multi-character ASCII descriptors are key names ('enter', 'ctrl+s').
+ */
+export function isTextInput(key: string): boolean {
+    if (key.length === 1 && key >= ' ' && key <= '~') return true;
+    return key.length > 0 && NON_ASCII_RE.test(key) && !CONTROL_RE.test(key);
+}
+
+/**
+ * Normalizes a human key spec ('Ctrl+S', 'Meta+Up', 'shift+Tab') into a key descriptor.
+ */
+export function normalizeKeySpec(spec: string): string {
+    // Non-ASCII text ('é', '日本') is its own descriptor
+    if (spec.length > 1 && isTextInput(spec)) return spec;
+
+    let rawName: string;
+    let rest: string;
+    if (spec === '+' || spec.endsWith('++')) {
+        // The '+' key itself (e.g. 'ctrl++')
+        rawName = '+';
+        rest = spec.slice(0, -2);
+    } else {
+        const index = spec.lastIndexOf('+');
+        rawName = spec.slice(index + 1);
+        rest = index >= 0 ? spec.slice(0, index) : '';
+    }
+
+    const modifiers = new Set((rest ? rest.split('+') : []).map(p => {
+        const mod = p.trim().toLowerCase();
+        return MODIFIER_ALIASES[mod] ?? mod;
+    }));
+    for (const mod of modifiers) {
+        if (!MODIFIER_ORDER.includes(mod)) {
+            throw new Error(`Unknown modifier "${mod}" in key spec "${spec}"`);
+        }
+    }
+
+    let name = rawName.length === 1 ? rawName : rawName.trim().toLowerCase();
+    name = NAME_ALIASES[name] ?? name;
+    // Modified letters are reported lower-case by the terminal
+    if (modifiers.size > 0 && name.length === 1) name = name.toLowerCase();
+
+    const prefix = MODIFIER_ORDER.filter(m => modifiers.has(m)).map(m => m + '+').join('');
+    return prefix + name;
+}
+
+/**
+ * Builds the active keymap from the defaults and optional user overrides.
+ */
+export function createKeymap(overrides: Keymap = {}): Map<string, EditorCommand> {
+    const keymap = new Map<string, EditorCommand>(Object.entries(DEFAULT_KEYMAP));
+    for (const [spec, command] of Object.entries(overrides)) {
+        const key = normalizeKeySpec(spec);
+        if (command === null) {
+            keymap.delete(key);
+        } else if ((EDITOR_COMMANDS as readonly string[]).includes(command)) {
+            keymap.set(key, command);
+        } else {
+            throw new Error(`Unknown editor command "${command}" for key "${spec}"`);
+        }
+    }
+    return keymap;
+}
+
+/**
+ * Converts a keypress into a key descriptor used for keymap lookups.
+ * Printable characters are returned as-is; everything else is
+ * 'modifier+name' (e.g. 'ctrl+s', 'alt+up', 'shift+tab', 'enter').
+ */
+export function describeKey(ch: string | undefined, key: KeypressEvent | undefined): string {
+    if (!key) return ch ?? '';
+    if (!key.ctrl && !key.meta && ch && isTextInput(ch)) {
+        return ch;
+    }
+    if (!key.name || key.name === 'undefined') return key.sequence;
+
+    const name = NAME_ALIASES[key.name] ?? key.name;
+    let prefix = '';
+    if (key.ctrl) prefix += 'ctrl+';
+    if (key.meta) prefix += 'alt+';
+    // Shift is implied by the character for letters/symbols
+    if (key.shift && name.length > 1) prefix += 'shift+';
+    return prefix + name;
+}
+
+/**
+ * Formats a key descriptor for display ('ctrl+s' -> 'Ctrl+S').
+ */
+export function formatKeySpec(descriptor: string): string {
+    return descriptor
+        .split(/\+(?!$)/)
+        .map(part => part.length === 1 ? part.toUpperCase() : part[0].toUpperCase() + part.slice(1))
+        .join('+');
+}
+
+/**
+ * Generates the help line shown in the status bar from the active bindings.
+ */
+export function buildHelpLine(keymap: Map<string, EditorCommand>): string {
+    const entries: string[] = [];
+    for (const [command, label] of HELP_COMMANDS) {
+        for (const [key, bound] of keymap) {
+            if (bound === command) {
+                entries.push(`${formatKeySpec(key)} = ${label}`);
+                break;
+            }
+        }
+    }
+    return 'HELP: ' + entries.join(' | ');
+}
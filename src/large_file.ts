@@ -0,0 +1,281 @@
+// src/large_file.ts
+
+import { closeSync, fstatSync, open, read, readSync } from 'fs';
+import { DocumentSnapshot, TextDocument, TextPosition } from './document.js';
+import { decodeText } from './encoding.js';
+
+/**
+ * Read-only view of a file too large to load into memory.
+ * Line start offsets are indexed in the background, block by block, and
+ * lines are read from disk when they are displayed (with a small cache).
+ * Only UTF-8 and Latin-1 files qualify: their line breaks are single '\n' bytes.
+ */
+
+// Default size (in bytes) from which files are opened as LargeFileDocuments
+export const LARGE_FILE_THRESHOLD = 50 * 1024 * 1024;
+// Bytes read per step while indexing or searching
+const BLOCK_SIZE = 1024 * 1024;
+// Bytes sniffed for the encoding and line break style
+const SAMPLE_SIZE = 64 * 1024;
+// Longer lines are cut off when displayed
+const MAX_LINE_BYTES = 64 * 1024;
+const LINE_CACHE_SIZE = 2000;
+
+export interface LargeFileMatch {
+    y: number;
+    x: number;
+}
+
+export class LargeFileDocument extends TextDocument {
+    public readonly filepath: string;
+    public readonly size: number;
+    public readonly encoding: 'utf-8' | 'latin1';
+    public readonly bom: boolean;
+    public readonly sample: string; // Decoded start of the file
+    // Byte offset of the start of each indexed line
+    private lineOffsets = new Float64Array(1024);
+    private lineTotal = 1;
+    private indexedBytes = 0;
+    private indexComplete = false;
+    private closed = false;
+    private fd: number;
+    private lineCache = new Map<number, string>();
+
+    private constructor(filepath: string, fd: number, size: number, sample: Buffer) {
+        super();
+        this.filepath = filepath;
+        this.fd = fd;
+        this.size = size;
+        const decoded = decodeText(sample);
+        this.encoding = decoded.encoding === 'latin1' ? 'latin1' : 'utf-8';
+        this.bom = decoded.bom;
+        this.sample = decoded.text;
+        this.lineOffsets[0] = decoded.bom ? 3 : 0;
+        this.indexedBytes = this.lineOffsets[0];
+    }
+
+    /**
+     * Opens a file for lazy viewing. Returns null if its encoding isn't supported
+     * (UTF-16 files have two-byte line breaks and are loaded normally).
+     */
+    public static async open(filepath: string): Promise<LargeFileDocument | null> {
+        // A plain descriptor (not a FileHandle): lines are read synchronously while rendering
+        const fd = await new Promise<number>((resolve, reject) => {
+            open(filepath, 'r', (err, fd) => err ? reject(err) : resolve(fd));
+        });
+        try {
+            const { size } = fstatSync(fd);
+            const sample = Buffer.alloc(Math.min(size, SAMPLE_SIZE));
+            readSync(fd, sample, 0, sample.length, 0);
+
+            // Cut the sample at its last line break, so a multi-byte character split
+            // at the end of the sample doesn't make valid UTF-8 look like Latin-1
+            const lastBreak = sample.lastIndexOf(0x0A);
+            const text = lastBreak > 0 ? sample.subarray(0, lastBreak + 1) : sample;
+            if (['utf-16le', 'utf-16be'].includes(decodeText(text).encoding)) {
+                closeSync(fd);
+                return null;
+            }
+            return new LargeFileDocument(filepath, fd, size, text);
+        } catch (err) {
+            closeSync(fd);
+            throw err;
+        }
+    }
+
+    /**
+     * True once every line start is known.
+     */
+    public get indexed(): boolean {
+        return this.indexComplete;
+    }
+
+    /**
+     * Fraction of the file indexed so far (0..1).
+     */
+    public get progress(): number {
+        return this.size === 0 ? 1 : this.indexedBytes / this.size;
+    }
+
+    /**
+     * Scans the file for line breaks, one block at a time, yielding to the event
+     * loop between blocks. `onProgress` is called after each block.
+     */
+    public async buildIndex(onProgress: () => void = () => {}): Promise<void> {
+        const block = Buffer.alloc(BLOCK_SIZE);
+        while (!this.closed && this.indexedBytes < this.size) {
+            const bytesRead = await this.readAsync(block, this.indexedBytes);
+            if (bytesRead === 0) break;
+            let index = -1;
+            while ((index = block.indexOf(0x0A, index + 1)) !== -1 && index < bytesRead) {
+                this.addLine(this.indexedBytes + index + 1);
+            }
+            this.indexedBytes += bytesRead;
+            onProgress();
+        }
+        this.indexComplete = !this.closed;
+        if (this.indexComplete) onProgress();
+    }
+
+    /**
+     * Finds the next occurrence of `query` at or after the position, searching
+     * the indexed part of the file block by block. Wraps around to the start.
+     */
+    public async find(query: string, from: TextPosition, onProgress: (fraction: number) => void = () => {}): Promise<LargeFileMatch | null> {
+        const needle = Buffer.from(query, this.encoding);
+        if (needle.length === 0 || (this.encoding === 'latin1' && needle.toString('latin1') !== query)) return null;
+
+        // Only complete lines can be mapped back to a position
+        const end = this.indexComplete ? this.size : this.lineOffsets[this.lineTotal - 1];
+        const start = this.byteOffsetAt(from);
+        const ranges: Array<[number, number]> = [[start, end], [this.lineOffsets[0], Math.min(end, start + needle.length - 1)]];
+        const total = end - this.lineOffsets[0];
+        let scanned = 0;
+
+        const block = Buffer.alloc(BLOCK_SIZE + needle.length - 1);
+        for (const [rangeStart, rangeEnd] of ranges) {
+            for (let offset = rangeStart; offset < rangeEnd && !this.closed; offset += BLOCK_SIZE) {
+                // Blocks overlap by the needle length, so matches across a boundary are found
+                const length = Math.min(block.length, rangeEnd - offset);
+                const bytesRead = await this.readAsync(block.subarray(0, length), offset);
+                const index = block.subarray(0, bytesRead).indexOf(needle);
+                if (index !== -1) return this.positionAtByte(offset + index);
+                scanned += Math.min(BLOCK_SIZE, rangeEnd - offset);
+                onProgress(Math.min(1, scanned / Math.max(1, total)));
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Closes the file. Indexing and searching stop.
+     */
+    public close(): void {
+        if (this.closed) return;
+        this.closed = true;
+        closeSync(this.fd);
+    }
+
+    // --- TextDocument (read side) ---
+
+    public override get lineCount(): number {
+        // The last indexed line is only complete once the whole file is indexed
+        return this.indexComplete ? this.lineTotal : Math.max(1, this.lineTotal - 1);
+    }
+
+    public override get length(): number {
+        return this.size;
+    }
+
+    public override getLine(y: number): string {
+        if (y < 0 || y >= this.lineCount || this.closed) return '';
+        if (y + 1 >= this.lineTotal && !this.indexComplete) return ''; // End not found yet
+        const cached = this.lineCache.get(y);
+        if (cached !== undefined) return cached;
+
+        const start = this.lineOffsets[y];
+        const end = y + 1 < this.lineTotal ? this.lineOffsets[y + 1] : this.size;
+        const buffer = Buffer.alloc(Math.min(end - start, MAX_LINE_BYTES));
+        readSync(this.fd, buffer, 0, buffer.length, start);
+        const line = buffer.toString(this.encoding).replace(/\r?\n$/, '');
+
+        if (this.lineCache.size >= LINE_CACHE_SIZE) {
+            this.lineCache.delete(this.lineCache.keys().next().value!);
+        }
+        this.lineCache.set(y, line);
+        return line;
+    }
+
+    public override getLines(start: number = 0, end: number = this.lineCount): string[] {
+        const lines: string[] = [];
+        for (let y = Math.max(0, start); y < Math.min(end, this.lineCount); y++) lines.push(this.getLine(y));
+        return lines;
+    }
+
+    /**
+     * The content isn't held in memory. Large files are read-only, so the file
+     * on disk is the content; callers that need the whole text get ''.
+     */
+    public override getText(): string {
+        return '';
+    }
+
+    public override getTextRange(start: TextPosition | number, end: TextPosition | number): string {
+        if (typeof start === 'number' || typeof end === 'number') return '';
+        const lines = this.getLines(start.y, end.y + 1);
+        if (lines.length === 0) return '';
+        lines[lines.length - 1] = lines[lines.length - 1].slice(0, end.x);
+        lines[0] = lines[0].slice(start.x);
+        return lines.join('\n');
+    }
+
+    public override snapshot(): DocumentSnapshot {
+        return { chunks: [] }; // The content never changes
+    }
+
+    public override restore(): void {}
+
+    public override insert(): TextPosition {
+        throw new Error('Large files are read-only');
+    }
+
+    public override delete(): string {
+        throw new Error('Large files are read-only');
+    }
+
+    public override replace(): TextPosition {
+        throw new Error('Large files are read-only');
+    }
+
+    public override setLine(): void {
+        throw new Error('Large files are read-only');
+    }
+
+    public override insertLines(): void {
+        throw new Error('Large files are read-only');
+    }
+
+    public override deleteLines(): string[] {
+        throw new Error('Large files are read-only');
+    }
+
+    // --- Internals ---
+
+    private addLine(offset: number): void {
+        if (this.lineTotal === this.lineOffsets.length) {
+            const grown = new Float64Array(this.lineOffsets.length * 2);
+            grown.set(this.lineOffsets);
+            this.lineOffsets = grown;
+        }
+        this.lineOffsets[this.lineTotal++] = offset;
+    }
+
+    private readAsync(buffer: Buffer, position: number): Promise<number> {
+        return new Promise((resolve, reject) => {
+            read(this.fd, buffer, 0, buffer.length, position, (err, bytesRead) => {
+                if (err) reject(err);
+                else resolve(bytesRead);
+            });
+        });
+    }
+
+    private byteOffsetAt(position: TextPosition): number {
+        const y = Math.min(position.y, this.lineCount - 1);
+        const prefix = this.getLine(y).slice(0, position.x);
+        return this.lineOffsets[y] + Buffer.byteLength(prefix, this.encoding);
+    }
+
+    private positionAtByte(offset: number): LargeFileMatch {
+        // Binary search for the last line starting at or before the offset
+        let low = 0;
+        let high = this.lineTotal - 1;
+        while (low < high) {
+            const mid = Math.ceil((low + high) / 2);
+            if (this.lineOffsets[mid] <= offset) low = mid;
+            else high = mid - 1;
+        }
+        const bytes = Buffer.alloc(Math.min(offset - this.lineOffsets[low], MAX_LINE_BYTES));
+        readSync(this.fd, bytes, 0, bytes.length, this.lineOffsets[low]);
+        return { y: low, x: bytes.toString(this.encoding).length };
+    }
+}
@@ -1,22 +1,53 @@
 import { ANSI } from './constants.js';
+import { graphemeWidth, splitGraphemes } from './unicode.js';
 
+/**
+ * One terminal cell. `char` is a whole grapheme cluster; a wide (two-cell)
+ * cluster is stored in its first cell and the second cell holds '' (continuation).
+ */
 interface Cell {
     char: string;
     style: string;
 }
 
+/**
+ * A run of consecutive cells on one row sharing the same (non-empty) style.
+ * `end` is exclusive.
+ */
+export interface StyleSpan {
+    row: number;
+    start: number;
+    end: number;
+    style: string;
+}
+
+export interface ScreenSnapshot {
+    lines: string[];
+    spans: StyleSpan[];
+}
+
 export class ScreenBuffer {
     private rows: number = 0;
     private cols: number = 0;
     private currentBuffer: Cell[][] = [];
     private nextBuffer: Cell[][] = [];
     private forceRedraw: boolean = true;
+    private output: NodeJS.WritableStream;
+    // Terminal position of cell (0, 0); set when drawing into a region of a shared screen
+    private origin: { top: number, left: number } | null = null;
 
-    constructor() {}
+    constructor(output: NodeJS.WritableStream = process.stdout) {
+        this.output = output;
+    }
 
-    public resize(rows: number, cols: number): void {
+    /**
+     * Resizes the grid. With an `origin`, the grid is drawn at that (0-based)
+     * terminal position and the rest of the screen is left untouched.
+     */
+    public resize(rows: number, cols: number, origin: { top: number, left: number } | null = null): void {
         this.rows = rows;
         this.cols = cols;
+        this.origin = origin;
         this.currentBuffer = this.createBuffer(rows, cols);
         this.nextBuffer = this.createBuffer(rows, cols);
         this.forceRedraw = true;
@@ -42,18 +73,76 @@ export class ScreenBuffer {
         }
     }
 
+    /**
+     * Puts one grapheme cluster at (x, y). Wide clusters take two cells (a wide
+     * cluster in the last column is replaced by a space); zero-width ones are skipped.
+     */
     public put(x: number, y: number, char: string, style: string = ''): void {
-        if (x >= 0 && x < this.cols && y >= 0 && y < this.rows) {
-            // Handle wide characters (simple check) if needed, 
-            // but for now strict 1-char-1-cell per plan.
-            this.nextBuffer[y][x] = { char, style };
+        if (x < 0 || x >= this.cols || y < 0 || y >= this.rows) return;
+        const width = graphemeWidth(char);
+        if (width === 0) return;
+
+        const row = this.nextBuffer[y];
+        // Don't leave half of a wide character behind
+        if (row[x].char === '' && x > 0) row[x - 1] = { char: ' ', style: row[x - 1].style };
+        const end = x + Math.max(1, width);
+        if (end < this.cols && row[end].char === '') row[end] = { char: ' ', style: row[end].style };
+
+        if (width === 2 && x + 1 >= this.cols) {
+            row[x] = { char: ' ', style };
+        } else {
+            row[x] = { char, style };
+            if (width === 2) row[x + 1] = { char: '', style };
         }
     }
 
-    public putString(x: number, y: number, text: string, style: string = ''): void {
-        for (let i = 0; i < text.length; i++) {
-            this.put(x + i, y, text[i], style);
+    /**
+     * Puts a string starting at (x, y). Returns the number of cells used.
+     */
+    public putString(x: number, y: number, text: string, style: string = ''): number {
+        let column = x;
+        for (const grapheme of splitGraphemes(text)) {
+            this.put(column, y, grapheme, style);
+            column += graphemeWidth(grapheme);
         }
+        return column - x;
+    }
+
+    /**
+     * Returns the frame last flushed to the terminal as plain text rows
+     * plus the styled runs on each row (used by the headless driver).
+     */
+    public snapshot(): ScreenSnapshot {
+        const lines: string[] = [];
+        const spans: StyleSpan[] = [];
+
+        for (let y = 0; y < this.rows; y++) {
+            let text = '';
+            let span: StyleSpan | null = null;
+            for (let x = 0; x < this.cols; x++) {
+                const cell = this.currentBuffer[y][x];
+                const style = cell.style === 'INVALID' ? '' : cell.style;
+                text += cell.char; // Continuation cells add nothing after a wide character
+
+                if (span && span.style === style) {
+                    span.end = x + 1;
+                } else {
+                    span = style ? { row: y, start: x, end: x + 1, style } : null;
+                    if (span) spans.push(span);
+                }
+            }
+            lines.push(text);
+        }
+        return { lines, spans };
+    }
+
+    /**
+     * Returns the escape sequence moving the terminal cursor to cell (x, y) of the grid.
+     */
+    public cursorTo(x: number, y: number): string {
+        const top = this.origin?.top ?? 0;
+        const left = this.origin?.left ?? 0;
+        return `\x1b[${top + y + 1};${left + x + 1}H`;
     }
 
     public flush(): void {
@@ -68,7 +157,9 @@ export class ScreenBuffer {
         // If forceRedraw is true, we assume currentBuffer is invalid/empty.
         
         if (this.forceRedraw) {
-             output += ANSI.CLEAR_SCREEN; // Clear entire screen
+             if (!this.origin) {
+                 output += ANSI.CLEAR_SCREEN; // Clear entire screen (a region only repaints its own cells)
+             }
              // Reset current buffer to allow diffing to fill everything
              for(let y=0; y<this.rows; y++) {
                  for(let x=0; x<this.cols; x++) {
@@ -83,10 +174,16 @@ export class ScreenBuffer {
                 const next = this.nextBuffer[y][x];
                 const curr = this.currentBuffer[y][x];
 
+                if (next.char === '') {
+                    // Continuation of a wide character: the terminal already moved past it
+                    this.currentBuffer[y][x] = { ...next };
+                    continue;
+                }
+
                 if (next.char !== curr.char || next.style !== curr.style) {
                     // 1. Move Cursor if needed
                     if (y !== lastY || x !== lastX + 1) {
-                         output += `\x1b[${y + 1};${x + 1}H`;
+                         output += this.cursorTo(x, y);
                     }
                     
                     // 2. Set Style if needed
@@ -122,7 +219,7 @@ export class ScreenBuffer {
                     // 4. Update State
                     this.currentBuffer[y][x] = { ...next };
                     lastY = y;
-                    lastX = x;
+                    lastX = x + Math.max(1, graphemeWidth(next.char)) - 1;
                 }
             }
         }
@@ -137,7 +234,7 @@ export class ScreenBuffer {
         // ScreenBuffer doesn't manage physical cursor position (that's handled after flush).
         
         if (output.length > 0) {
-            process.stdout.write(output);
+            this.output.write(output);
         }
     }
 }
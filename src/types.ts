@@ -1,19 +1,143 @@
 // src/types.ts
 
+import type { NormalizedRange } from './editor.selection.js';
+import type { Keymap } from './keymap.js';
+import type { TextPosition } from './document.js';
+
 /**
- * Defines the necessary state for saving and restoring the document content
- * and cursor position for the History Manager (Undo/Redo).
+ * Cursor position and selection saved with each undo step by the History
+ * Manager, restored by Undo/Redo.
  */
-export type DocumentState = { 
-    lines: string[], 
-    cursorX: number, 
-    cursorY: number 
+export type CursorState = {
+    cursorX: number,
+    cursorY: number,
+    selectionAnchor: TextPosition | null,
 };
 
-export type EditorMode = 'edit' | 'search_find' | 'search_replace' | 'search_confirm' | 'goto_line';
+/**
+ * Output target for the editor. Any writable stream works (PTY, SSH channel, socket);
+ * if it reports `rows`/`columns` and emits 'resize' like a TTY WriteStream, the
+ * editor sizes itself from it.
+ */
+export type OutputStream = NodeJS.WritableStream & { rows?: number, columns?: number, isTTY?: boolean };
+
+export type TerminalSize = { rows: number, columns: number };
+
+/**
+ * A screen area in 0-based cells.
+ */
+export type Rect = { top: number, left: number, rows: number, cols: number };
+
+/**
+ * Line break style of a file. The document always holds lines without line breaks;
+ * the style is applied when the content is written out.
+ */
+export type LineEnding = 'LF' | 'CRLF';
+
+/**
+ * Character encoding of a file on disk (see src/encoding.ts).
+ */
+export type FileEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'latin1';
+
+export type EditorMode = 'edit' | 'search_find' | 'search_replace' | 'search_confirm' | 'goto_line' | 'open_file' | 'encoding' | 'time_travel' | 'undo_tree';
+
+/**
+ * A problem reported by `EditorOptions.validate`. `line` and `column` are 1-based;
+ * when `line` is given the cursor jumps there.
+ */
+export type ValidationIssue = {
+    message: string,
+    line?: number,
+    column?: number
+};
+
+export type SaveHandler = (content: string, filepath: string) => void | Promise<void>;
+
+export type Validator = (content: string) => Array<string | ValidationIssue> | Promise<Array<string | ValidationIssue>>;
 
 export interface EditorOptions {
     tabSize?: number;
+    useTabs?: boolean; // Tab inserts a real '\t' instead of tabSize spaces (default: detected from the file)
+    detectIndentation?: boolean; // false = ignore the file's indentation style; explicit tabSize/useTabs always win (default: true)
     gutterWidth?: number;
     inputStream?: NodeJS.ReadStream; // stream.Readable
-}
\ No newline at end of file
+    readOnly?: boolean; // View-only: navigation, selection, copy and find still work
+    keymap?: Keymap; // Overrides/extends DEFAULT_KEYMAP, e.g. { 'ctrl+z': null, 'alt+z': 'undo' }
+    outputStream?: OutputStream; // Defaults to process.stdout
+    getTerminalSize?: () => TerminalSize; // Explicit size source when the stream doesn't report one
+    syntaxWorker?: boolean; // false = highlight synchronously on the main thread (default: true)
+    swapFile?: boolean; // false = don't write a crash-recovery swap file (default: true)
+    largeFileThreshold?: number; // Files of at least this many bytes open read-only and load lazily (default: 50 MB)
+    historyLimit?: number; // Undo steps kept per buffer (default: 100)
+    undoIdleTime?: number; // Pause in ms after which typing starts a new undo step (default: 1000)
+    undoFile?: boolean; // false = don't keep the undo history in a `.name.undo` file between sessions (default: true)
+    undoFileMaxSize?: number; // Largest undo file in bytes; older steps are left out (default: 1 MB)
+    onSave?: SaveHandler; // Replaces the disk write (e.g. store content in a database)
+    validate?: Validator; // Runs before saving; any returned issue blocks the save
+    region?: Rect; // Draw inside this 0-based rectangle of the terminal instead of the full screen
+    manageTerminal?: boolean; // false = the host owns raw mode, the alternate screen and input (default: true)
+}
+
+/**
+ * Payload of the 'change' event. The line range is inclusive and expressed in
+ * the coordinates of the document *after* the change; `lineCount` is the new
+ * total number of lines.
+ */
+export type ContentChangeEvent = {
+    startLine: number,
+    endLine: number,
+    lineCount: number
+};
+
+export type CursorChangeEvent = {
+    cursorX: number,
+    cursorY: number,
+    selection: NormalizedRange | null
+};
+
+export type ModeChangeEvent = {
+    mode: EditorMode,
+    previousMode: EditorMode
+};
+
+export type SaveEvent =
+    | { filepath: string, content: string, bytes?: undefined }
+    // Saved from the hex view: the bytes written, as there is no text content
+    | { filepath: string, bytes: Buffer, content?: undefined };
+
+/**
+ * Outcome for one file edited during the session.
+ */
+export type FileResult = {
+    filepath: string,
+    saved: boolean, // Saved at least once this session
+    content: string,
+    largeFile?: boolean, // Opened as a large file: `content` was never loaded and is ''
+    bytes?: Buffer // In the hex view: the bytes (`content` holds them decoded)
+};
+
+/**
+ * Value `run()` / `openEditor` resolve with. `saved`, `content`, `largeFile` and
+ * `bytes` describe the active buffer when the editor closed; `files` lists every
+ * buffer opened during the session (closed buffers first, then the open ones in buffer order).
+ */
+export type EditorResult = {
+    saved: boolean,
+    content: string,
+    largeFile?: boolean,
+    bytes?: Buffer,
+    files: FileResult[]
+};
+
+export type QuitEvent = EditorResult;
+
+/**
+ * Event map for the typed EventEmitter interface of CliEditor.
+ */
+export interface EditorEvents {
+    change: [ContentChangeEvent];
+    cursor: [CursorChangeEvent];
+    mode: [ModeChangeEvent];
+    save: [SaveEvent];
+    quit: [QuitEvent];
+}
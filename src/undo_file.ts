@@ -0,0 +1,90 @@
+// src/undo_file.ts
+
+import { promises as fs } from 'fs';
+import { createHash } from 'crypto';
+import * as path from 'path';
+import { HistoryManager, SerializedHistory } from './history.js';
+import { TextDocument } from './document.js';
+
+/**
+ * Undo files keep a buffer's undo history between sessions. Like swap files
+ * they sit next to the file (`.name.undo`); they are written when the file is
+ * saved and hold a hash of the saved text, so a history is only restored if
+ * the file still has that content.
+ */
+
+// Default largest undo file (bytes); older steps are left out to stay below it
+export const UNDO_FILE_MAX_SIZE = 1024 * 1024;
+const UNDO_FILE_VERSION = 1;
+
+interface UndoFileData {
+    version: number;
+    hash: string;
+    history: SerializedHistory;
+}
+
+export function getUndoPath(filepath: string): string {
+    return path.join(path.dirname(filepath), '.' + path.basename(filepath) + '.undo');
+}
+
+/**
+ * Hash of a text as the document holds it ('\r\n' counts as '\n').
+ */
+export function hashText(text: string): string {
+    return createHash('sha256').update(text.replace(/\r\n/g, '\n')).digest('hex');
+}
+
+/**
+ * Reads the undo history saved for a file, if its hash matches `content` and
+ * its steps replay on it. Missing or outdated undo files give null; corrupt
+ * ones (or ones from another version) are also removed.
+ */
+export async function readUndoFile(filepath: string, content: string): Promise<SerializedHistory | null> {
+    const undoPath = getUndoPath(filepath);
+    let json: string;
+    try {
+        json = await fs.readFile(undoPath, 'utf-8');
+    } catch {
+        return null;
+    }
+    try {
+        const data = JSON.parse(json) as UndoFileData;
+        if (data.version !== UNDO_FILE_VERSION) throw new Error(`Unsupported undo file version: ${data.version}`);
+        if (data.hash !== hashText(content)) return null; // The file was changed since
+        new HistoryManager(Infinity).load(data.history, new TextDocument(content));
+        return data.history;
+    } catch {
+        // Only a cache: drop it instead of failing to open the file
+        await fs.rm(undoPath, { force: true }).catch(() => {});
+        return null;
+    }
+}
+
+/**
+ * Writes a buffer's history to its undo file. `content` is the saved text.
+ * If the file would be larger than `maxSize`, the oldest steps are left out
+ * (the live history keeps them); with no steps left, the undo file is removed.
+ */
+export async function writeUndoFile(filepath: string, history: HistoryManager, content: string, maxSize: number = UNDO_FILE_MAX_SIZE): Promise<void> {
+    const hash = hashText(content);
+    let serialized = history.serialize();
+    let json = JSON.stringify({ version: UNDO_FILE_VERSION, hash, history: serialized });
+
+    // Halve the number of steps until it fits
+    let steps = serialized.entries.length - 1;
+    while (Buffer.byteLength(json) > maxSize && steps > 0) {
+        steps = Math.floor(steps / 2);
+        const trimmed = new HistoryManager(Infinity);
+        trimmed.load(serialized);
+        trimmed.prune(steps);
+        serialized = trimmed.serialize();
+        json = JSON.stringify({ version: UNDO_FILE_VERSION, hash, history: serialized });
+    }
+
+    const undoPath = getUndoPath(filepath);
+    if (steps === 0) {
+        await fs.rm(undoPath, { force: true });
+        return;
+    }
+    await fs.writeFile(undoPath, json, 'utf-8');
+}
@@ -0,0 +1,125 @@
+// src/unicode.ts
+
+/**
+ * Display width of text in terminal cells.
+ *
+ * The document is indexed in UTF-16 code units, but the screen is made of cells:
+ * East Asian wide characters and emoji take two cells, combining marks and other
+ * zero-width characters none. The cursor moves by grapheme cluster (what the user
+ * sees as one character), so it never lands inside a surrogate pair or a cluster.
+ * A tab extends to the next tab stop, so its width depends on its column.
+ */
+
+// Printable ASCII: one code unit per cell, no clusters (the fast path)
+const ASCII_RE = /^[\x20-\x7e]*$/;
+const ZERO_WIDTH_RE = /^[\p{Mn}\p{Me}\p{Cf}]+$/u;
+const EMOJI_PRESENTATION_RE = /\p{Emoji_Presentation}|\uFE0F/u;
+
+// East Asian Wide (W) and Fullwidth (F) ranges
+const WIDE_RANGES: Array<[number, number]> = [
+    [0x1100, 0x115F], [0x231A, 0x231B], [0x2329, 0x232A], [0x2E80, 0x303E],
+    [0x3041, 0x33FF], [0x3400, 0x4DBF], [0x4E00, 0x9FFF], [0xA000, 0xA4CF],
+    [0xA960, 0xA97F], [0xAC00, 0xD7A3], [0xF900, 0xFAFF], [0xFE10, 0xFE19],
+    [0xFE30, 0xFE6F], [0xFF00, 0xFF60], [0xFFE0, 0xFFE6], [0x1F300, 0x1F64F],
+    [0x1F900, 0x1F9FF], [0x20000, 0x2FFFD], [0x30000, 0x3FFFD],
+];
+
+const segmenter = new Intl.Segmenter(undefined, { granularity: 'grapheme' });
+
+/**
+ * Splits text into grapheme clusters.
+ */
+export function splitGraphemes(text: string): string[] {
+    if (ASCII_RE.test(text)) return text.split('');
+    return Array.from(segmenter.segment(text), segment => segment.segment);
+}
+
+/**
+ * Number of cells a grapheme cluster occupies (0, 1 or 2).
+ */
+export function graphemeWidth(grapheme: string): number {
+    const code = grapheme.codePointAt(0) ?? 0;
+    if (grapheme.length === 1 && code < 0x300) return 1; // ASCII, Latin-1, Latin Extended (controls are drawn raw)
+    if (ZERO_WIDTH_RE.test(grapheme)) return 0;
+    if (EMOJI_PRESENTATION_RE.test(grapheme)) return 2;
+    for (const [start, end] of WIDE_RANGES) {
+        if (code < start) break;
+        if (code <= end) return 2;
+    }
+    return 1;
+}
+
+/**
+ * Number of cells a grapheme cluster occupies when drawn at `column` of a row:
+ * a tab reaches the next multiple of `tabSize` (cut off at the row `width`).
+ */
+export function cellWidth(grapheme: string, column: number, tabSize: number, width: number = Infinity): number {
+    if (grapheme !== '\t') return graphemeWidth(grapheme);
+    const size = Math.max(1, tabSize);
+    return Math.max(1, Math.min(size - (column % size), width - column));
+}
+
+/**
+ * Number of cells the text occupies when drawn from column 0.
+ */
+export function stringWidth(text: string, tabSize: number = 4): number {
+    if (ASCII_RE.test(text)) return text.length;
+    let width = 0;
+    for (const grapheme of splitGraphemes(text)) width += cellWidth(grapheme, width, tabSize);
+    return width;
+}
+
+/**
+ * Returns the code unit offsets at which each visual row of a wrapped line starts.
+ * Rows hold at most `width` cells and never split a grapheme cluster; a wide
+ * character that doesn't fit at the end of a row moves to the next one. A tab
+ * never wraps; it is cut off at the end of the row instead.
+ */
+export function wrapLine(line: string, width: number, tabSize: number = 4): number[] {
+    if (ASCII_RE.test(line)) {
+        const starts = [0];
+        for (let start = width; start < line.length; start += width) starts.push(start);
+        return starts;
+    }
+
+    const starts = [0];
+    let offset = 0;
+    let column = 0;
+    for (const grapheme of splitGraphemes(line)) {
+        let cells = cellWidth(grapheme, column, tabSize, width);
+        if (column + cells > width && column > 0) {
+            starts.push(offset);
+            column = 0;
+            cells = cellWidth(grapheme, column, tabSize, width);
+        }
+        column += cells;
+        offset += grapheme.length;
+    }
+    return starts;
+}
+
+/**
+ * Offset of the grapheme boundary before `offset` (0 at the start of the line).
+ */
+export function previousGraphemeOffset(line: string, offset: number): number {
+    if (offset <= 0) return 0;
+    if (ASCII_RE.test(line)) return offset - 1;
+    let previous = 0;
+    for (const { index } of segmenter.segment(line)) {
+        if (index >= offset) break;
+        previous = index;
+    }
+    return previous;
+}
+
+/**
+ * Offset of the grapheme boundary after `offset` (the line length at the end).
+ */
+export function nextGraphemeOffset(line: string, offset: number): number {
+    if (offset >= line.length) return line.length;
+    if (ASCII_RE.test(line)) return offset + 1;
+    for (const { index } of segmenter.segment(line)) {
+        if (index > offset) return index;
+    }
+    return line.length;
+}
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { detectLineEnding, LineMeasure, TextDocument } from '../src/document';
+
+describe('TextDocument', () => {
+    it('should split content into lines', () => {
+        const doc = new TextDocument('one\ntwo\n');
+        expect(doc.lineCount).toBe(3);
+        expect(doc.getLines()).toEqual(['one', 'two', '']);
+        expect(doc.getText()).toBe('one\ntwo\n');
+        expect(doc.length).toBe(8);
+        expect(doc.getLine(5)).toBe('');
+    });
+
+    it('should insert and delete by position', () => {
+        const doc = new TextDocument('hello world');
+        const end = doc.insert({ x: 5, y: 0 }, ',\nbig');
+        expect(end).toEqual({ x: 3, y: 1 });
+        expect(doc.getLines()).toEqual(['hello,', 'big world']);
+
+        expect(doc.delete({ x: 5, y: 0 }, { x: 3, y: 1 })).toBe(',\nbig');
+        expect(doc.getText()).toBe('hello world');
+    });
+
+    it('should convert between offsets and positions', () => {
+        const doc = new TextDocument('ab\ncde\nf');
+        expect(doc.offsetAt({ x: 1, y: 1 })).toBe(4);
+        expect(doc.positionAt(4)).toEqual({ x: 1, y: 1 });
+        expect(doc.positionAt(3)).toEqual({ x: 0, y: 1 });
+        expect(doc.positionAt(100)).toEqual({ x: 1, y: 2 });
+
+        doc.replace(3, 6, 'X');
+        expect(doc.getText()).toBe('ab\nX\nf');
+    });
+
+    it('should always keep at least one line', () => {
+        const doc = new TextDocument('a\nb');
+        expect(doc.deleteLines(0, 5)).toEqual(['a', 'b']);
+        expect(doc.getLines()).toEqual(['']);
+    });
+
+    it('should stay consistent across chunk boundaries', () => {
+        const lines = Array.from({ length: 2000 }, (_, i) => `line ${i}`);
+        const doc = TextDocument.fromLines(lines);
+
+        doc.insert({ x: 0, y: 600 }, 'a\nb\n');
+        lines.splice(600, 1, 'a', 'b', 'line 600');
+        doc.deleteLines(1020, 30);
+        lines.splice(1020, 30);
+        doc.insertLines(doc.lineCount, ['end']);
+        lines.push('end');
+
+        expect(doc.lineCount).toBe(lines.length);
+        expect(doc.getLines()).toEqual(lines);
+        expect(doc.getLines(1015, 1025)).toEqual(lines.slice(1015, 1025));
+        const offset = doc.offsetAt({ x: 2, y: 1500 });
+        expect(doc.positionAt(offset)).toEqual({ x: 2, y: 1500 });
+    });
+
+    it('should restore snapshots without being affected by later edits', () => {
+        const doc = new TextDocument('first');
+        const snapshot = doc.snapshot();
+        doc.insert({ x: 5, y: 0 }, ' second');
+        expect(doc.getText()).toBe('first second');
+
+        doc.restore(snapshot);
+        expect(doc.getText()).toBe('first');
+    });
+
+    it('should strip CRLF line breaks and detect the dominant style', () => {
+        const doc = new TextDocument('a\r\nb\nc\r\n');
+        expect(doc.getLines()).toEqual(['a', 'b', 'c', '']);
+        expect(doc.getText('\r\n')).toBe('a\r\nb\r\nc\r\n');
+
+        expect(detectLineEnding('a\r\nb\nc\r\n')).toBe('CRLF');
+        expect(detectLineEnding('a\nb\r\nc\n')).toBe('LF');
+        expect(detectLineEnding('no breaks')).toBe('LF');
+    });
+
+    it('should sum a line measure and only measure changed chunks again', () => {
+        const lines = Array.from({ length: 2000 }, (_, i) => 'x'.repeat(i % 3));
+        const doc = TextDocument.fromLines(lines);
+        let measured = 0;
+        const rows = new LineMeasure(line => { measured++; return Math.max(1, line.length); });
+        const expected = (y: number) => lines.slice(0, y).reduce((sum, line) => sum + Math.max(1, line.length), 0);
+
+        expect(doc.measureBefore(1500, rows)).toBe(expected(1500));
+        expect(doc.measureBefore(doc.lineCount, rows)).toBe(expected(2000));
+        expect(doc.findByMeasure(expected(1234), rows)).toEqual({ y: 1234, before: expected(1234) });
+        expect(doc.findByMeasure(expected(2000), rows)).toBeNull();
+        expect(measured).toBe(2000);
+
+        measured = 0;
+        doc.insert({ x: 0, y: 1000 }, 'yy');
+        lines[1000] = 'yy' + lines[1000];
+        expect(doc.measureBefore(doc.lineCount, rows)).toBe(expected(2000));
+        expect(measured).toBeLessThan(1000);
+    });
+});
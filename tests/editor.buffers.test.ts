@@ -0,0 +1,141 @@
+import { describe, it, expect, afterEach, beforeEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { HeadlessEditor } from '../src/headless.js';
+
+describe('Editor Buffers', () => {
+    let driver: HeadlessEditor;
+    let dir: string;
+
+    beforeEach(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'cliedit-buffers-'));
+    });
+
+    afterEach(async () => {
+        await driver?.close();
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('should keep cursor, content and dirty flag per buffer', () => {
+        driver = new HeadlessEditor('first', { rows: 6, columns: 60, filepath: 'a.txt' });
+        driver.editor.addBuffer('second', 'b.txt');
+        driver.press('end').type('!');
+
+        driver.press('ctrl+n');
+        expect(driver.editor.filepath).toBe('b.txt');
+        expect(driver.editor.cursorX).toBe(0);
+        expect(driver.editor.isDirty).toBe(false);
+        expect(driver.text()).toContain('[2/2 b.txt]');
+
+        driver.press('ctrl+p');
+        expect(driver.editor.lines).toEqual(['first!']);
+        expect(driver.editor.cursorX).toBe(6);
+        expect(driver.editor.isDirty).toBe(true);
+    });
+
+    it('should keep a separate undo history per buffer', () => {
+        driver = new HeadlessEditor('a', { rows: 6, columns: 60 });
+        driver.editor.addBuffer('b', 'b.txt');
+        driver.type('1').press('ctrl+n').type('2').press('ctrl+z', 'ctrl+z');
+        expect(driver.editor.lines).toEqual(['b']);
+
+        driver.press('ctrl+p');
+        expect(driver.editor.lines).toEqual(['1a']);
+        driver.press('ctrl+z', 'ctrl+z');
+        expect(driver.editor.lines).toEqual(['a']);
+    });
+
+    it('should open a file from the prompt and switch to an already open one', async () => {
+        const file = path.join(dir, 'notes.txt');
+        await fs.writeFile(file, 'from disk');
+        driver = new HeadlessEditor('main', { rows: 6, columns: 80, filepath: 'main.txt' });
+
+        driver.press('ctrl+e').type(file).press('enter');
+        await vi.waitFor(() => expect(driver.editor.buffers).toHaveLength(2));
+        expect(driver.editor.lines).toEqual(['from disk']);
+
+        driver.press('ctrl+e').type('main.txt').press('enter');
+        await driver.settle();
+        expect(driver.editor.buffers).toHaveLength(2);
+        expect(driver.editor.activeBufferIndex).toBe(0);
+    });
+
+    it('should list the open buffers', () => {
+        driver = new HeadlessEditor('a', { rows: 6, columns: 80, filepath: 'a.txt' });
+        driver.editor.addBuffer('b', 'b.txt');
+        driver.type('x').press('ctrl+b');
+
+        expect(driver.text()).toContain('Buffers: [1:*a.txt] 2:b.txt');
+    });
+
+    it('should confirm before closing a dirty buffer', () => {
+        driver = new HeadlessEditor('a', { rows: 6, columns: 80, filepath: 'a.txt' });
+        driver.editor.addBuffer('b', 'b.txt');
+        driver.type('x').press('alt+w');
+        expect(driver.editor.buffers).toHaveLength(2);
+
+        driver.press('alt+w');
+        expect(driver.editor.buffers).toHaveLength(1);
+        expect(driver.editor.filepath).toBe('b.txt');
+    });
+
+    it('should report per-file results when quitting', async () => {
+        const saved: Array<[string, string]> = [];
+        driver = new HeadlessEditor('a', {
+            rows: 6,
+            columns: 80,
+            filepath: 'a.txt',
+            onSave: (content, filepath) => { saved.push([filepath, content]); },
+        });
+        driver.editor.addBuffer('b', 'b.txt');
+        driver.type('1').press('ctrl+o');
+        await driver.settle();
+        driver.press('ctrl+n').type('2').press('ctrl+q');
+        expect(driver.text()).toContain('Unsaved changes in b.txt!');
+        driver.press('ctrl+q');
+
+        expect(saved).toEqual([['a.txt', '1a']]);
+        await expect(driver.result).resolves.toEqual({
+            saved: false,
+            content: '2b',
+            files: [
+                { filepath: 'a.txt', saved: true, content: '1a' },
+                { filepath: 'b.txt', saved: false, content: '2b' },
+            ],
+        });
+    });
+
+    it('should not quit on save-and-quit while other buffers are dirty', async () => {
+        driver = new HeadlessEditor('a', { rows: 6, columns: 80, filepath: 'a.txt', onSave: () => {} });
+        driver.editor.addBuffer('b', 'b.txt');
+        driver.type('1').press('ctrl+n').type('2').press('ctrl+s');
+        await driver.settle();
+
+        expect(driver.editor.isExiting).toBe(false);
+        expect(driver.text()).toContain('Saved. Unsaved changes in: a.txt');
+    });
+
+    it('should save a file back in the encoding it was read in', async () => {
+        const file = path.join(dir, 'legacy.conf');
+        await fs.writeFile(file, Buffer.from('name=café\n', 'latin1'));
+        driver = new HeadlessEditor('', { rows: 6, columns: 80, filepath: 'main.txt' });
+
+        driver.press('ctrl+e').type(file).press('enter');
+        await vi.waitFor(() => expect(driver.editor.buffers).toHaveLength(2));
+        expect(driver.editor.lines).toEqual(['name=café', '']);
+        expect(driver.editor.encoding).toBe('latin1');
+        expect(driver.text()).toContain('Latin-1 LF');
+
+        driver.press('end').type('!').press('ctrl+o');
+        await vi.waitFor(() => expect(driver.editor.isDirty).toBe(false));
+        expect(await fs.readFile(file)).toEqual(Buffer.from('name=café!\n', 'latin1'));
+
+        // Convert to UTF-8 with a BOM, then re-open the result as Latin-1
+        driver.press('alt+e').type('utf-8-bom').press('enter');
+        await vi.waitFor(async () => expect(await fs.readFile(file)).toEqual(Buffer.from('\uFEFFname=café!\n', 'utf-8')));
+        driver.press('alt+r').type('latin1').press('enter');
+        await vi.waitFor(() => expect(driver.editor.encoding).toBe('latin1'));
+        expect(driver.editor.lines[0]).toBe('ï»¿name=cafÃ©!');
+    });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createMockEditor } from './test_utils.js';
+import { editingMethods } from '../src/editor.editing.js';
+import { selectionMethods } from '../src/editor.selection.js';
+import { ioMethods } from '../src/editor.io.js';
+import { eventMethods } from '../src/editor.events.js';
+import { CliEditor } from '../src/editor.js';
+
+describe('Editor Events', () => {
+    let editor: CliEditor;
+    let events: Array<{ name: string; payload: unknown }>;
+
+    beforeEach(() => {
+        editor = createMockEditor([editingMethods, selectionMethods, ioMethods, eventMethods]);
+        editor.lines = ['Line 1', 'Line 2', 'Line 3'];
+        editor.cursorX = 0;
+        editor.cursorY = 0;
+        events = [];
+        editor.on('change', payload => events.push({ name: 'change', payload }));
+        editor.on('cursor', payload => events.push({ name: 'cursor', payload }));
+        editor.on('mode', payload => events.push({ name: 'mode', payload }));
+    });
+
+    it('should report the edited line on character insert', () => {
+        editor.cursorY = 1;
+        editor.insertCharacter('x');
+
+        expect(events).toEqual([
+            { name: 'change', payload: { startLine: 1, endLine: 1, lineCount: 3 } }
+        ]);
+    });
+
+    it('should report both lines when splitting a line', () => {
+        editor.cursorX = 4;
+        editor.insertNewLine();
+
+        expect(events[0].payload).toEqual({ startLine: 0, endLine: 1, lineCount: 4 });
+    });
+
+    it('should report the range covered by moved lines', () => {
+        editor.cursorY = 2;
+        editor.moveLines(-1);
+
+        expect(events[0].payload).toEqual({ startLine: 1, endLine: 2, lineCount: 3 });
+    });
+
+    it('should emit cursor and mode events only when they change', () => {
+        editor.emitStateEvents();
+        editor.emitStateEvents();
+        expect(events.map(e => e.name)).toEqual(['cursor']);
+
+        editor.cursorX = 3;
+        editor.mode = 'search_find';
+        editor.emitStateEvents();
+
+        expect(events.slice(1)).toEqual([
+            { name: 'cursor', payload: { cursorX: 3, cursorY: 0, selection: null } },
+            { name: 'mode', payload: { mode: 'search_find', previousMode: 'edit' } },
+        ]);
+    });
+});
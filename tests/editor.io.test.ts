@@ -0,0 +1,146 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { HeadlessEditor } from '../src/headless.js';
+
+describe('Editor Saving', () => {
+    let driver: HeadlessEditor;
+
+    afterEach(async () => {
+        await driver?.close();
+    });
+
+    it('should save through the onSave handler instead of the disk', async () => {
+        const saved: string[] = [];
+        driver = new HeadlessEditor('value', {
+            rows: 5,
+            columns: 40,
+            onSave: async (content) => { saved.push(content); },
+        });
+        driver.press('end').type('!').press('ctrl+s');
+
+        await expect(driver.result).resolves.toEqual({ saved: true, content: 'value!', files: [{ filepath: '', saved: true, content: 'value!' }] });
+        expect(saved).toEqual(['value!']);
+    });
+
+    it('should block saving and jump to the first reported line', async () => {
+        const saved: string[] = [];
+        driver = new HeadlessEditor('a: 1\nb: x\nc: 3', {
+            rows: 6,
+            columns: 60,
+            onSave: (content) => { saved.push(content); },
+            validate: (content) => content.split('\n').flatMap((line, i) =>
+                isNaN(Number(line.slice(3))) ? [{ line: i + 1, column: 4, message: 'not a number' }] : []),
+        });
+        driver.press('ctrl+s');
+        await driver.settle();
+
+        expect(saved).toEqual([]);
+        expect(driver.editor.isExiting).toBe(false);
+        expect(driver.editor.cursorY).toBe(1);
+        expect(driver.editor.cursorX).toBe(3);
+        expect(driver.text()).toContain('Cannot save: Line 2: not a number');
+    });
+
+    it('should accept plain string messages from the validator', async () => {
+        driver = new HeadlessEditor('', {
+            rows: 5,
+            columns: 60,
+            onSave: () => {},
+            validate: () => ['empty document', 'second problem'],
+        });
+        driver.press('ctrl+s');
+        await driver.settle();
+
+        expect(driver.text()).toContain('Cannot save: empty document (+1 more)');
+    });
+
+    it('should validate the trimmed content and leave the buffer alone when blocked', async () => {
+        const saved: string[] = [];
+        let valid = false;
+        const seen: string[] = [];
+        driver = new HeadlessEditor('a  \nb', {
+            rows: 5,
+            columns: 60,
+            onSave: (content) => { saved.push(content); },
+            validate: (content) => { seen.push(content); return valid ? [] : ['not yet']; },
+        });
+        driver.editor.applyEditorConfig({ trimTrailingWhitespace: true, insertFinalNewline: true });
+        expect(await driver.editor.saveFile()).toBe(false);
+        expect(seen).toEqual(['a\nb\n']);
+        expect(driver.editor.lines).toEqual(['a  ', 'b']);
+        driver.press('ctrl+z');
+        expect(driver.editor.statusMessage).toBe('Already at oldest change');
+
+        valid = true;
+        expect(await driver.editor.saveFile()).toBe(true);
+        expect(saved).toEqual(['a\nb\n']);
+        expect(driver.editor.lines).toEqual(['a', 'b', '']);
+    });
+
+    it('should leave the buffer alone when the write fails', async () => {
+        let fail = true;
+        driver = new HeadlessEditor('a  \nb', {
+            rows: 5,
+            columns: 60,
+            onSave: () => { if (fail) throw new Error('disk full'); },
+        });
+        driver.editor.applyEditorConfig({ trimTrailingWhitespace: true, insertFinalNewline: true });
+        expect(await driver.editor.saveFile()).toBe(false);
+        expect(driver.editor.statusMessage).toBe('Save Error: disk full');
+        expect(driver.editor.lines).toEqual(['a  ', 'b']);
+        driver.press('ctrl+z');
+        expect(driver.editor.statusMessage).toBe('Already at oldest change');
+
+        fail = false;
+        expect(await driver.editor.saveFile()).toBe(true);
+        expect(driver.editor.lines).toEqual(['a', 'b', '']);
+        expect(driver.editor.isDirty).toBe(false);
+    });
+
+    it('should keep the editor open on a plain save', async () => {
+        const saved: string[] = [];
+        driver = new HeadlessEditor('draft', { rows: 5, columns: 60, onSave: (content) => { saved.push(content); } });
+        driver.type('1').press('ctrl+o');
+        await driver.settle();
+
+        expect(saved).toEqual(['1draft']);
+        expect(driver.editor.isDirty).toBe(false);
+        expect(driver.editor.isExiting).toBe(false);
+
+        // Quitting after a checkpoint save reports the session as saved
+        driver.press('ctrl+q');
+        await expect(driver.result).resolves.toEqual({ saved: true, content: '1draft', files: [{ filepath: '', saved: true, content: '1draft' }] });
+    });
+
+    it('should let the embedder rebind Ctrl+S to a plain save', async () => {
+        driver = new HeadlessEditor('x', { rows: 5, columns: 60, onSave: () => {}, keymap: { 'ctrl+s': 'save' } });
+        driver.press('ctrl+s');
+        await driver.settle();
+
+        expect(driver.editor.isExiting).toBe(false);
+        expect(driver.editor.hasSaved).toBe(true);
+    });
+
+    it('should keep CRLF line endings on save', async () => {
+        const saved: string[] = [];
+        driver = new HeadlessEditor('one\r\ntwo\r\n', { rows: 5, columns: 60, onSave: (content) => { saved.push(content); } });
+        expect(driver.editor.lines).toEqual(['one', 'two', '']);
+        expect(driver.editor.lineEnding).toBe('CRLF');
+        expect(driver.text()).toContain('CRLF');
+
+        driver.press('end').type('!').press('ctrl+o');
+        await driver.settle();
+        expect(saved).toEqual(['one!\r\ntwo\r\n']);
+    });
+
+    it('should convert line endings with the toggle command', async () => {
+        const saved: string[] = [];
+        driver = new HeadlessEditor('a\r\nb', { rows: 5, columns: 60, onSave: (content) => { saved.push(content); } });
+        driver.press('alt+l');
+        expect(driver.editor.lineEnding).toBe('LF');
+        expect(driver.editor.isDirty).toBe(true);
+
+        driver.press('ctrl+o');
+        await driver.settle();
+        expect(saved).toEqual(['a\nb']);
+    });
+});
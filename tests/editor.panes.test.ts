@@ -0,0 +1,114 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { HeadlessEditor } from '../src/headless.js';
+
+describe('Editor Panes', () => {
+    let driver: HeadlessEditor;
+
+    afterEach(async () => {
+        await driver?.close();
+    });
+
+    it('should stack two panes over the same buffer with a divider', () => {
+        driver = new HeadlessEditor('one\ntwo', { rows: 10, columns: 30 });
+        driver.press('alt+h');
+
+        const lines = driver.screen().lines;
+        expect(lines[0].trimEnd()).toBe('  1 |one');
+        expect(lines[3]).toBe('─'.repeat(30));
+        expect(lines[4].trimEnd()).toBe('  1 |one');
+        // The new (lower) pane has focus
+        expect(driver.screen().cursor).toEqual({ row: 4, col: 5 });
+    });
+
+    it('should place panes side by side, each with its own gutter and scrollbar', () => {
+        const content = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`).join('\n');
+        driver = new HeadlessEditor(content, { rows: 8, columns: 41 });
+        driver.press('alt+v');
+
+        const row = driver.screen().lines[0];
+        expect(row.slice(0, 5)).toBe('  1 |');
+        expect(row[19]).toBe('┃');
+        expect(row[20]).toBe('│');
+        expect(row.slice(21, 26)).toBe('  1 |');
+        expect(row[40]).toBe('┃');
+    });
+
+    it('should keep a separate cursor and viewport per pane', () => {
+        const content = Array.from({ length: 30 }, (_, i) => `line ${i + 1}`).join('\n');
+        driver = new HeadlessEditor(content, { rows: 12, columns: 40 });
+        driver.press('alt+h', 'ctrl+l').type('25').press('enter');
+        expect(driver.editor.cursorY).toBe(24);
+
+        driver.press('alt+o');
+        expect(driver.editor.cursorY).toBe(0);
+        expect(driver.screen().lines[0].slice(0, 12)).toBe('  1 |line 1 ');
+        expect(driver.text()).toContain(' 25 |line 25');
+    });
+
+    it('should show edits in every pane on the same buffer', () => {
+        driver = new HeadlessEditor('abc', { rows: 10, columns: 30 });
+        driver.press('alt+h').type('X');
+
+        const lines = driver.screen().lines;
+        expect(lines[0].trimEnd()).toBe('  1 |Xabc');
+        expect(lines[4].trimEnd()).toBe('  1 |Xabc');
+    });
+
+    it('should show different buffers in different panes', () => {
+        driver = new HeadlessEditor('first', { rows: 10, columns: 30, filepath: 'a.txt' });
+        driver.editor.addBuffer('second', 'b.txt');
+        driver.press('alt+h', 'ctrl+n');
+
+        const lines = driver.screen().lines;
+        expect(lines[0].trimEnd()).toBe('  1 |first');
+        expect(lines[4].trimEnd()).toBe('  1 |second');
+        expect(driver.editor.filepath).toBe('b.txt');
+
+        driver.press('alt+o');
+        expect(driver.editor.filepath).toBe('a.txt');
+        expect(driver.editor.lines).toEqual(['first']);
+    });
+
+    it('should write each buffer to its own swap file when panes switch buffers', async () => {
+        const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'cliedit-panes-'));
+        vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval'] });
+        try {
+            const a = path.join(dir, 'a.txt');
+            const b = path.join(dir, 'b.txt');
+            driver = new HeadlessEditor('first', { rows: 10, columns: 30, filepath: a, swapFile: true });
+            driver.editor.addBuffer('second', b);
+            driver.press('alt+h', 'ctrl+n', 'alt+o');
+            driver.type('AAA');
+
+            vi.advanceTimersByTime(2000);
+            await driver.close();
+            expect(await fs.readFile(path.join(dir, '.a.txt.swp'), 'utf-8')).toBe('AAAfirst');
+            expect(await fs.readFile(path.join(dir, '.b.txt.swp'), 'utf-8')).toBe('second');
+        } finally {
+            vi.useRealTimers();
+            await fs.rm(dir, { recursive: true, force: true });
+        }
+    });
+
+    it('should give the space back when a pane is closed', () => {
+        driver = new HeadlessEditor('abc', { rows: 10, columns: 30 });
+        driver.press('alt+x');
+        expect(driver.text()).toContain('Cannot close the only pane');
+
+        driver.press('alt+v', 'alt+x');
+        expect(driver.editor.getPanes()).toHaveLength(1);
+        expect(driver.editor.screenCols).toBe(30);
+        expect(driver.screen().lines[0].trimEnd()).toBe('  1 |abc');
+    });
+
+    it('should refuse to split a pane that is too small', () => {
+        driver = new HeadlessEditor('abc', { rows: 6, columns: 30 });
+        driver.press('alt+h');
+
+        expect(driver.editor.getPanes()).toHaveLength(1);
+        expect(driver.text()).toContain('Not enough room to split');
+    });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createMockEditor } from './test_utils.js';
+import { editingMethods } from '../src/editor.editing.js';
+import { selectionMethods } from '../src/editor.selection.js';
+import { clipboardMethods } from '../src/editor.clipboard.js';
+import { ioMethods } from '../src/editor.io.js';
+import { CliEditor } from '../src/editor.js';
+
+describe('Read-only mode', () => {
+    let editor: CliEditor;
+
+    beforeEach(() => {
+        editor = createMockEditor([editingMethods, selectionMethods, clipboardMethods, ioMethods]);
+        editor.lines = ['Line 1', 'Line 2', 'Line 3'];
+        editor.cursorX = 2;
+        editor.cursorY = 0;
+        editor.readOnly = true;
+    });
+
+    it('should block character and line edits', () => {
+        editor.insertCharacter('x');
+        editor.insertNewLine();
+        editor.deleteBackward();
+        editor.deleteForward();
+        editor.insertContentAtCursor(['a', 'b']);
+
+        expect(editor.lines).toEqual(['Line 1', 'Line 2', 'Line 3']);
+        expect(editor.isDirty).toBe(false);
+        expect(editor.statusMessage).toBe('Buffer is read-only');
+    });
+
+    it('should block moving and duplicating lines', () => {
+        editor.moveLines(1);
+        editor.duplicateLineOrSelection();
+
+        expect(editor.lines).toEqual(['Line 1', 'Line 2', 'Line 3']);
+        expect(editor.cursorY).toBe(0);
+    });
+
+    it('should keep the selection when deleting is blocked', async () => {
+        editor.startOrUpdateSelection();
+        editor.cursorY = 1;
+
+        expect(editor.deleteSelectedText()).toBe(false);
+        await editor.pasteLine();
+
+        expect(editor.getSelectedText()).toBe('ne 1\nLi');
+        expect(editor.lines.length).toBe(3);
+    });
+
+    it('should allow edits when read-only is off', () => {
+        editor.readOnly = false;
+        editor.insertCharacter('x');
+
+        expect(editor.lines[0]).toBe('Lixne 1');
+    });
+});
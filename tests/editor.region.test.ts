@@ -0,0 +1,64 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { PassThrough, Writable } from 'stream';
+import { CliEditor } from '../src/editor.js';
+import { HeadlessEditor, keypressFromSpec } from '../src/headless.js';
+
+describe('Editor Region', () => {
+    let driver: HeadlessEditor | undefined;
+
+    afterEach(async () => {
+        await driver?.close();
+        driver = undefined;
+    });
+
+    it('should lay out text and status bar inside the region', () => {
+        driver = new HeadlessEditor('hello', { rows: 24, columns: 80, region: { top: 3, left: 10, rows: 5, cols: 30 } });
+
+        const lines = driver.screen().lines;
+        expect(lines).toHaveLength(5);
+        expect(lines[0]).toHaveLength(30);
+        expect(lines[0].trimEnd()).toBe('  1 |hello');
+        expect(lines[3].startsWith('[')).toBe(true); // Status bar
+        // The physical cursor is placed in terminal coordinates
+        expect(driver.screen().cursor).toEqual({ row: 3, col: 15 });
+    });
+
+    it('should move to a new region', () => {
+        driver = new HeadlessEditor('hello', { region: { top: 0, left: 0, rows: 5, cols: 30 } });
+        driver.editor.setRegion({ top: 2, left: 4, rows: 6, cols: 20 });
+
+        expect(driver.screen().lines).toHaveLength(6);
+        expect(driver.screen().lines[0]).toHaveLength(20);
+        expect(driver.screen().cursor).toEqual({ row: 2, col: 9 });
+    });
+
+    it('should leave the terminal to the host when manageTerminal is false', async () => {
+        const written: string[] = [];
+        const output = new Writable({
+            write(chunk, _encoding, callback) { written.push(chunk.toString()); callback(); },
+        });
+        const input = Object.assign(new PassThrough(), { setRawMode: vi.fn() });
+        const editor = new CliEditor('abc', '', {
+            inputStream: input as unknown as NodeJS.ReadStream,
+            outputStream: output,
+            manageTerminal: false,
+            region: { top: 10, left: 0, rows: 4, cols: 20 },
+            syntaxWorker: false,
+            swapFile: false,
+        });
+        const result = editor.run();
+
+        // The host forwards keys itself
+        editor.handleKeypressEvent(...keypressFromSpec('x'));
+        editor.handleKeypressEvent(...keypressFromSpec('ctrl+q'));
+        editor.handleKeypressEvent(...keypressFromSpec('ctrl+q'));
+        await expect(result).resolves.toMatchObject({ content: 'xabc' });
+
+        const all = written.join('');
+        expect(all).not.toContain('\x1b[?1049h'); // No alternate screen
+        expect(all).not.toContain('\x1b[2J');     // No full-screen clear
+        expect(all).toContain('\x1b[11;1H');      // Drawn at the region's origin
+        expect(input.setRawMode).not.toHaveBeenCalled();
+        expect(input.listenerCount('keypress')).toBe(0);
+    });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect, afterEach, beforeEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { loadEditorConfig, matchGlob, parseEditorConfig, resolveProperties } from '../src/editorconfig.js';
+import { HeadlessEditor } from '../src/headless.js';
+
+describe('EditorConfig parsing', () => {
+    it('should parse the preamble and sections', () => {
+        const config = parseEditorConfig('# top\nroot = true\n\n[*]\nIndent_Style = space\n; comment\n[*.md]\ntrim_trailing_whitespace=false\n');
+        expect(config.root).toBe(true);
+        expect(config.sections).toEqual([
+            { glob: '*', properties: { indent_style: 'space' } },
+            { glob: '*.md', properties: { trim_trailing_whitespace: 'false' } },
+        ]);
+    });
+
+    it('should match globs like EditorConfig', () => {
+        expect(matchGlob('*.js', 'src/lib/a.js')).toBe(true);
+        expect(matchGlob('lib/*.js', 'src/lib/a.js')).toBe(false);
+        expect(matchGlob('src/**.js', 'src/lib/a.js')).toBe(true);
+        expect(matchGlob('*.{js,ts}', 'a.ts')).toBe(true);
+        expect(matchGlob('Makefile', 'sub/Makefile')).toBe(true);
+        expect(matchGlob('[!a]bc', 'abc')).toBe(false);
+        expect(matchGlob('file{1..3}.txt', 'file2.txt')).toBe(true);
+        expect(matchGlob('file{1..3}.txt', 'file4.txt')).toBe(false);
+    });
+
+    it('should resolve property values', () => {
+        expect(resolveProperties({
+            indent_style: 'Tab', indent_size: 'tab', tab_width: '8', end_of_line: 'crlf',
+            charset: 'utf-8-bom', insert_final_newline: 'true', trim_trailing_whitespace: 'unset',
+        })).toEqual({
+            useTabs: true, indentSize: 8, tabWidth: 8, endOfLine: 'CRLF',
+            charset: { encoding: 'utf-8', bom: true }, insertFinalNewline: true,
+        });
+        expect(resolveProperties({ indent_size: '2' })).toEqual({ indentSize: 2, tabWidth: 2 });
+    });
+});
+
+describe('EditorConfig files', () => {
+    let driver: HeadlessEditor;
+    let dir: string;
+
+    beforeEach(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'cliedit-editorconfig-'));
+    });
+
+    afterEach(async () => {
+        await driver?.close();
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('should let closer files override outer ones and stop at root', async () => {
+        await fs.mkdir(path.join(dir, 'project', 'sub'), { recursive: true });
+        await fs.writeFile(path.join(dir, '.editorconfig'), '[*]\nend_of_line = crlf\n');
+        await fs.writeFile(path.join(dir, 'project', '.editorconfig'), 'root = true\n[*]\nindent_style = space\nindent_size = 4\n');
+        await fs.writeFile(path.join(dir, 'project', 'sub', '.editorconfig'), '[*.go]\nindent_style = tab\n');
+
+        expect(await loadEditorConfig(path.join(dir, 'project', 'sub', 'main.go')))
+            .toEqual({ useTabs: true, indentSize: 4, tabWidth: 4 });
+        expect(await loadEditorConfig(path.join(dir, 'project', 'sub', 'notes.txt')))
+            .toEqual({ useTabs: false, indentSize: 4, tabWidth: 4 });
+    });
+
+    it('should apply the settings to an opened file and on save', async () => {
+        await fs.writeFile(path.join(dir, '.editorconfig'),
+            'root = true\n[*.yml]\nindent_size = 2\nend_of_line = crlf\ntrim_trailing_whitespace = true\ninsert_final_newline = true\n');
+        const file = path.join(dir, 'app.yml');
+        await fs.writeFile(file, 'a: 1   \nb:\n');
+        driver = new HeadlessEditor('', { rows: 6, columns: 80, filepath: 'main.txt' });
+
+        driver.press('ctrl+e').type(file).press('enter');
+        await vi.waitFor(() => expect(driver.editor.buffers).toHaveLength(2));
+        expect(driver.editor.lineEnding).toBe('CRLF');
+        expect(driver.text()).toContain('Spaces: 2');
+
+        driver.press('down', 'end', 'enter', 'tab').type('c: 3').press('ctrl+o');
+        await vi.waitFor(() => expect(driver.editor.isDirty).toBe(false));
+        expect(await fs.readFile(file, 'utf-8')).toBe('a: 1\r\nb:\r\n  c: 3\r\n');
+    });
+
+    it('should let editor options take precedence', async () => {
+        await fs.writeFile(path.join(dir, '.editorconfig'), 'root = true\n[*]\nindent_style = tab\nindent_size = 8\n');
+        const file = path.join(dir, 'a.txt');
+        driver = new HeadlessEditor('', { rows: 6, columns: 80, filepath: 'main.txt', tabSize: 2, useTabs: false });
+
+        driver.press('ctrl+e').type(file).press('enter');
+        await vi.waitFor(() => expect(driver.editor.buffers).toHaveLength(2));
+        expect(driver.editor.useTabs).toBe(false);
+        expect(driver.editor.indentSize).toBe(2);
+    });
+});
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { decodeAs, decodeText, encodeText, parseEncoding, formatEncoding } from '../src/encoding';
+
+describe('Encoding', () => {
+    it('should detect BOMs', () => {
+        expect(decodeText(Buffer.from([0xEF, 0xBB, 0xBF, 0x68, 0x69]))).toEqual({ text: 'hi', encoding: 'utf-8', bom: true });
+        expect(decodeText(Buffer.from([0xFF, 0xFE, 0x68, 0x00]))).toEqual({ text: 'h', encoding: 'utf-16le', bom: true });
+        expect(decodeText(Buffer.from([0xFE, 0xFF, 0x00, 0x68]))).toEqual({ text: 'h', encoding: 'utf-16be', bom: true });
+    });
+
+    it('should fall back to Latin-1 for invalid UTF-8', () => {
+        expect(decodeText(Buffer.from('café', 'utf-8'))).toEqual({ text: 'café', encoding: 'utf-8', bom: false });
+        expect(decodeText(Buffer.from('café', 'latin1'))).toEqual({ text: 'café', encoding: 'latin1', bom: false });
+    });
+
+    it('should round-trip every encoding', () => {
+        const text = 'naïve\r\nline';
+        for (const [encoding, bom] of [['utf-8', true], ['utf-16le', false], ['utf-16be', true], ['latin1', false]] as const) {
+            expect(decodeAs(encodeText(text, encoding, bom), encoding)).toEqual({ text, encoding, bom });
+        }
+        expect(encodeText('€', 'latin1', false)).toEqual(Buffer.from('?'));
+    });
+
+    it('should parse encoding names', () => {
+        expect(parseEncoding('UTF8')).toEqual({ encoding: 'utf-8', bom: false });
+        expect(parseEncoding('utf-8-bom')).toEqual({ encoding: 'utf-8', bom: true });
+        expect(parseEncoding('iso-8859-1')).toEqual({ encoding: 'latin1', bom: false });
+        expect(parseEncoding('latin1-bom')).toBeNull();
+        expect(parseEncoding('ebcdic')).toBeNull();
+        expect(formatEncoding('utf-16le', true)).toBe('UTF-16LE BOM');
+    });
+});
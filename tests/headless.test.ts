@@ -0,0 +1,60 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { HeadlessEditor, keypressFromSpec } from '../src/headless.js';
+import { ANSI } from '../src/constants.js';
+
+describe('HeadlessEditor', () => {
+    let driver: HeadlessEditor;
+
+    afterEach(async () => {
+        await driver?.close();
+    });
+
+    it('should render the initial content with gutter and status bar', () => {
+        driver = new HeadlessEditor('hello\nworld', { rows: 6, columns: 40, filepath: 'a.txt' });
+        const screen = driver.screen();
+
+        expect(screen.lines[0]).toMatch(/^ {2}1 \|hello/);
+        expect(screen.lines[1]).toMatch(/^ {2}2 \|world/);
+        expect(screen.lines[2]).toMatch(/^~/);
+        expect(screen.lines[4]).toContain('[a.txt]');
+        expect(screen.lines[5]).toContain('Ctrl+S = Save');
+        expect(screen.cursor).toEqual({ row: 0, col: 5 });
+    });
+
+    it('should reflect typed text on screen', () => {
+        driver = new HeadlessEditor('', { rows: 5, columns: 30 });
+        driver.type('ab\ncd');
+
+        expect(driver.text().split('\n').slice(0, 2)).toEqual(['  1 |ab', '  2 |cd']);
+        expect(driver.editor.isDirty).toBe(true);
+    });
+
+    it('should expose selection highlighting as style spans', () => {
+        driver = new HeadlessEditor('abcdef', { rows: 4, columns: 20 });
+        driver.press('ctrl+right', 'ctrl+right', 'ctrl+right');
+
+        const selected = driver.screen().spans.filter(s => s.row === 0 && s.style === ANSI.INVERT_COLORS);
+        // 'abc' selected plus the block cursor on 'd'
+        expect(selected).toEqual([{ row: 0, start: 5, end: 9, style: ANSI.INVERT_COLORS }]);
+    });
+
+    it('should follow terminal resizes', () => {
+        driver = new HeadlessEditor('x', { rows: 4, columns: 20 });
+        driver.resize(6, 30);
+
+        expect(driver.screen().lines).toHaveLength(6);
+        expect(driver.screen().lines[0]).toHaveLength(30);
+    });
+
+    it('should resolve the result when quitting', async () => {
+        driver = new HeadlessEditor('text', { rows: 4, columns: 20 });
+        driver.type('!').press('ctrl+q', 'ctrl+q');
+
+        await expect(driver.result).resolves.toEqual({ saved: false, content: '!text', files: [{ filepath: '', saved: false, content: '!text' }] });
+    });
+
+    it('should build keypress events from key specs', () => {
+        expect(keypressFromSpec('Ctrl+S')).toEqual([undefined, { name: 's', ctrl: true, meta: false, shift: false, sequence: 'ctrl+s' }]);
+        expect(keypressFromSpec('A')[1].shift).toBe(true);
+    });
+});
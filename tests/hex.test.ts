@@ -0,0 +1,111 @@
+import { describe, it, expect, afterEach, beforeEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { isBinary } from '../src/encoding.js';
+import { HeadlessEditor } from '../src/headless.js';
+import type { SaveEvent } from '../src/types.js';
+
+describe('isBinary', () => {
+    it('should detect NUL bytes and mostly non-text data', () => {
+        expect(isBinary(Buffer.from([0x7F, 0x45, 0x4C, 0x46, 0x02, 0x00]))).toBe(true);
+        const noise = Buffer.from(Array.from({ length: 256 }, (_, i) => (i * 37 + 1) % 32 || 1));
+        expect(isBinary(noise)).toBe(true);
+    });
+
+    it('should not flag text files', () => {
+        expect(isBinary(Buffer.from('héllo wörld\n', 'utf-8'))).toBe(false);
+        expect(isBinary(Buffer.from('café crème\r\n', 'latin1'))).toBe(false);
+        expect(isBinary(Buffer.from('﻿hi\n', 'utf16le'))).toBe(false);
+        expect(isBinary(Buffer.alloc(0))).toBe(false);
+    });
+});
+
+describe('Hex view', () => {
+    let driver: HeadlessEditor;
+    let dir: string;
+    let file: string;
+
+    beforeEach(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'cliedit-hex-'));
+        file = path.join(dir, 'data.bin');
+        await fs.writeFile(file, Buffer.from([0x00, 0x01, 0x41, 0x42, 0xFF]));
+    });
+
+    afterEach(async () => {
+        await driver?.close();
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('should open binary files in the hex view', async () => {
+        driver = new HeadlessEditor('', { rows: 10, columns: 80 });
+        await driver.editor.openBuffer(file);
+        driver.editor.render();
+
+        expect(driver.editor.hexView).not.toBeNull();
+        expect(driver.editor.document.getText()).toBe('');
+        expect(driver.text().split('\n')[0]).toBe('00000000  ' + '00 01 41 42 ff'.padEnd(16 * 3) + ' ..AB.');
+    });
+
+    it('should overwrite nibbles and bytes, undo, and save the raw bytes', async () => {
+        driver = new HeadlessEditor('', { rows: 10, columns: 80 });
+        await driver.editor.openBuffer(file);
+
+        driver.type('7f');
+        expect(driver.editor.hexView!.bytes).toEqual(Buffer.from([0x7F, 0x01, 0x41, 0x42, 0xFF]));
+        expect(driver.editor.hexView!.offset).toBe(1);
+
+        driver.press('tab'); // Text pane
+        driver.type('z');
+        expect(driver.editor.hexView!.bytes[1]).toBe(0x7A);
+
+        driver.press('ctrl+z');
+        expect(driver.editor.hexView!.bytes[1]).toBe(0x01);
+        expect(driver.editor.isDirty).toBe(true);
+
+        const saves: SaveEvent[] = [];
+        driver.editor.on('save', event => saves.push(event));
+        driver.press('ctrl+s');
+        await vi.waitFor(() => expect(driver.editor.isDirty).toBe(false));
+        expect(await fs.readFile(file)).toEqual(Buffer.from([0x7F, 0x01, 0x41, 0x42, 0xFF]));
+        expect(saves).toEqual([{ filepath: file, bytes: Buffer.from([0x7F, 0x01, 0x41, 0x42, 0xFF]) }]);
+        expect(driver.editor.history.isSaved).toBe(true);
+
+        const bytes = Buffer.from([0x7F, 0x01, 0x41, 0x42, 0xFF]);
+        const result = await driver.close();
+        expect(result).toEqual({
+            saved: true, content: '\x7F\x01ABÿ', bytes,
+            files: [
+                { filepath: '', saved: false, content: '' },
+                { filepath: file, saved: true, content: '\x7F\x01ABÿ', bytes },
+            ],
+        });
+    });
+
+    it('should not bypass onSave or validate with the hex view', async () => {
+        const onSave = vi.fn();
+        driver = new HeadlessEditor('AB', { rows: 10, columns: 80, onSave });
+        driver.press('alt+b');
+        expect(driver.editor.hexView).toBeNull();
+        expect(driver.editor.statusMessage).toBe('The hex view is not available with an onSave handler or validator');
+
+        await driver.editor.openBuffer(file);
+        driver.type('7f');
+        expect(await driver.editor.saveFile()).toBe(false);
+        expect(driver.editor.statusMessage).toBe('Cannot save binary data with an onSave handler or validator');
+        expect(await fs.readFile(file)).toEqual(Buffer.from([0x00, 0x01, 0x41, 0x42, 0xFF]));
+        expect(onSave).not.toHaveBeenCalled();
+    });
+
+    it('should toggle between the text and the hex view', () => {
+        driver = new HeadlessEditor('AB\nC', { rows: 10, columns: 80 });
+        driver.press('alt+b');
+        expect(driver.editor.hexView!.bytes).toEqual(Buffer.from('AB\nC'));
+
+        driver.press('end');
+        driver.type('44');
+        driver.press('alt+b');
+        expect(driver.editor.hexView).toBeNull();
+        expect(driver.editor.document.getText()).toBe('AB\nCD');
+    });
+});
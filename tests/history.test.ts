@@ -1,57 +1,414 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { HistoryManager } from '../src/history';
-import { DocumentState } from '../src/types';
+import { CursorState } from '../src/types';
+import { TextDocument } from '../src/document';
+import { HeadlessEditor } from '../src/headless';
 
 describe('HistoryManager', () => {
     let history: HistoryManager;
+    let document: TextDocument;
+    let state: CursorState;
 
     beforeEach(() => {
         history = new HistoryManager(5);
+        document = new TextDocument('hello\nworld');
+        state = { cursorX: 0, cursorY: 0, selectionAnchor: null };
+        document.onEdit = edit => history.record(edit, state);
     });
 
-    const createState = (text: string): DocumentState => ({
-        lines: [text],
-        cursorX: 0,
-        cursorY: 0
+    const at = (x: number, y: number): CursorState => ({ cursorX: x, cursorY: y, selectionAnchor: null });
+
+    it('should undo the edits of a step and return the state before it', () => {
+        state = at(5, 0);
+        document.insert({ x: 5, y: 0 }, ' there\nbig');
+        document.delete({ x: 0, y: 2 }, { x: 1, y: 2 });
+        history.checkpoint(at(3, 1));
+
+        expect(document.getText()).toBe('hello there\nbig\norld');
+        expect(history.undo(document)).toEqual(at(5, 0));
+        expect(document.getText()).toBe('hello\nworld');
     });
 
-    it('should save state and undo', () => {
-        const state1 = createState('state1');
-        history.saveState(state1);
-        
-        const currentState = createState('current');
-        const previous = history.undo(currentState);
-        
-        expect(previous).toEqual(state1);
+    it('should redo and return the state after the step', () => {
+        document.deleteLines(0, 1);
+        history.checkpoint(at(0, 0));
+        document.insertLines(1, ['!']);
+        history.checkpoint(at(1, 1));
+
+        history.undo(document);
+        history.undo(document);
+        expect(document.getText()).toBe('hello\nworld');
+
+        expect(history.redo(document)).toEqual(at(0, 0));
+        expect(history.redo(document)).toEqual(at(1, 1));
+        expect(document.getText()).toBe('world\n!');
+        expect(history.redo(document)).toBeNull();
     });
 
-    it('should redo', () => {
-        const state1 = createState('state1');
-        history.saveState(state1);
-        
-        const currentState = createState('state2');
-        history.undo(currentState);
-        
-        const redone = history.redo(state1); // passing what we are at now (state1)
-        expect(redone).toEqual(currentState);
+    it('should not record edits made while undoing, and clear redo on a new edit', () => {
+        document.setLine(1, 'there');
+        history.checkpoint(state);
+        history.undo(document);
+        expect(history.undo(document)).toBeNull();
+
+        document.insert({ x: 0, y: 0 }, '> ');
+        history.checkpoint(state);
+        expect(history.redo(document)).toBeNull();
     });
 
     it('should limit history size', () => {
-        for(let i=0; i<10; i++) {
-            history.saveState(createState(`state${i}`));
+        for (let i = 0; i < 10; i++) {
+            document.insert({ x: 0, y: 0 }, `${i}`);
+            history.checkpoint(state);
+        }
+        // Size is 5: the last five inserts can be undone
+        for (let i = 0; i < 5; i++) {
+            expect(history.undo(document)).not.toBeNull();
         }
-        // Size is 5.
-        // History should contain state5, state6, state7, state8, state9.
-        
-        // Undo 5 times should work.
-        let current = createState('current');
-        for(let i=0; i<5; i++) {
-            const prev = history.undo(current);
-            expect(prev).toBeDefined();
-            current = prev!;
+        expect(history.undo(document)).toBeNull();
+        expect(document.getLine(0)).toBe('43210hello');
+    });
+});
+
+describe('Undo grouping', () => {
+    let history: HistoryManager;
+    let document: TextDocument;
+    let x: number;
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        history = new HistoryManager(100, 1000);
+        document = new TextDocument('');
+        x = 0;
+        document.onEdit = edit => history.record(edit, { cursorX: x, cursorY: 0, selectionAnchor: null });
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    const type = (text: string) => {
+        for (const ch of text) {
+            document.insert({ x, y: 0 }, ch);
+            x++;
+            history.checkpoint({ cursorX: x, cursorY: 0, selectionAnchor: null }, 'insert');
+        }
+    };
+
+    it('should group typing up to the start of the next word', () => {
+        type('hello world');
+        history.undo(document);
+        expect(document.getText()).toBe('hello ');
+        expect(history.undo(document)).toEqual({ cursorX: 0, cursorY: 0, selectionAnchor: null });
+        expect(document.getText()).toBe('');
+        expect(history.undo(document)).toBeNull();
+    });
+
+    it('should start a new step after a pause, a cursor jump or another kind of edit', () => {
+        type('ab');
+        vi.advanceTimersByTime(1500);
+        type('cd');
+        x = 1; // Cursor moved
+        type('e');
+        document.delete({ x: 0, y: 0 }, { x: 1, y: 0 });
+        x = 0;
+        history.checkpoint({ cursorX: 0, cursorY: 0, selectionAnchor: null }, 'delete');
+        expect(document.getText()).toBe('ebcd');
+
+        const steps: string[] = [];
+        while (history.undo(document)) steps.push(document.getText());
+        expect(steps).toEqual(['aebcd', 'abcd', 'ab', '']);
+    });
+
+    it('should only group typing at the cursor', () => {
+        type('abc');
+        document.insert({ x: 0, y: 0 }, 'line\n'); // Elsewhere, e.g. a line command
+        history.checkpoint({ cursorX: x, cursorY: 0, selectionAnchor: null }, 'insert');
+        expect(document.getText()).toBe('line\nabc');
+
+        history.undo(document);
+        expect(document.getText()).toBe('abc');
+        history.undo(document);
+        expect(document.getText()).toBe('');
+    });
+
+    it('should not add to a step after undoing', () => {
+        type('abc');
+        history.undo(document);
+        x = 0;
+        type('x');
+        history.undo(document);
+        expect(document.getText()).toBe('');
+        expect(history.redo(document)).toEqual({ cursorX: 1, cursorY: 0, selectionAnchor: null });
+    });
+});
+
+describe('Undo/Redo in the editor', () => {
+    it('should undo typing word by word and deleting separately', async () => {
+        const driver = new HeadlessEditor('', { rows: 6, columns: 40 });
+        driver.type('one two');
+        driver.press('backspace', 'backspace');
+        expect(driver.editor.lines).toEqual(['one t']);
+
+        driver.press('ctrl+z');
+        expect(driver.editor.lines).toEqual(['one two']);
+        driver.press('ctrl+z');
+        expect(driver.editor.lines).toEqual(['one ']);
+        driver.press('ctrl+z');
+        expect(driver.editor.lines).toEqual(['']);
+        await driver.close();
+    });
+
+    it('should undo a paste between typing runs as its own step', async () => {
+        const driver = new HeadlessEditor('', { rows: 6, columns: 40 });
+        driver.editor.getClipboard = async () => 'PASTE';
+        driver.type('abc');
+        driver.press('ctrl+v');
+        await driver.settle();
+        expect(driver.editor.lines).toEqual(['abcPASTE']);
+        expect(driver.text()).toContain('abcPASTE'); // Redrawn once the clipboard answered
+        driver.type('x');
+
+        driver.press('ctrl+z');
+        expect(driver.editor.lines).toEqual(['abcPASTE']);
+        driver.press('ctrl+z');
+        expect(driver.editor.lines).toEqual(['abc']);
+        driver.press('ctrl+z');
+        expect(driver.editor.lines).toEqual(['']);
+        await driver.close();
+    });
+
+    it('should undo a line command between typing runs as its own step', async () => {
+        const driver = new HeadlessEditor('aa\nbb', { rows: 6, columns: 40 });
+        driver.type('x');
+        driver.press('ctrl+d');
+        driver.type('y');
+        driver.press('alt+down');
+        expect(driver.editor.lines).toEqual(['xaa', 'bb', 'xyaa']);
+
+        const steps: string[][] = [];
+        for (let i = 0; i < 4; i++) {
+            driver.press('ctrl+z');
+            steps.push([...driver.editor.lines]);
         }
-        
-        // 6th undo should return null
-        expect(history.undo(current)).toBeNull();
+        expect(steps).toEqual([
+            ['xaa', 'xyaa', 'bb'],
+            ['xaa', 'xaa', 'bb'],
+            ['xaa', 'bb'],
+            ['aa', 'bb'],
+        ]);
+        await driver.close();
+    });
+
+    it('should not group typing with a line move', async () => {
+        const driver = new HeadlessEditor('one\ntwo', { rows: 6, columns: 40 });
+        driver.press('down', 'end');
+        driver.type('abc');
+        driver.press('alt+up');
+        driver.type('d');
+        expect(driver.editor.lines).toEqual(['twoabcd', 'one']);
+
+        driver.press('ctrl+z');
+        expect(driver.editor.lines).toEqual(['twoabc', 'one']);
+        driver.press('ctrl+z');
+        expect(driver.editor.lines).toEqual(['one', 'twoabc']);
+        driver.press('ctrl+z');
+        expect(driver.editor.lines).toEqual(['one', 'two']);
+        await driver.close();
+    });
+
+    it('should restore the text, cursor and selection', async () => {
+        const driver = new HeadlessEditor('one two', { rows: 6, columns: 40 });
+        driver.press('ctrl+right', 'ctrl+right', 'ctrl+right');
+        driver.press('backspace');
+        expect(driver.editor.lines).toEqual([' two']);
+
+        driver.press('ctrl+z');
+        expect(driver.editor.lines).toEqual(['one two']);
+        expect(driver.editor.cursorX).toBe(3);
+        expect(driver.editor.selectionAnchor).toEqual({ x: 0, y: 0 });
+
+        driver.press('ctrl+y');
+        expect(driver.editor.lines).toEqual([' two']);
+        expect(driver.editor.cursorX).toBe(0);
+        expect(driver.editor.selectionAnchor).toBeNull();
+        await driver.close();
+    });
+});
+
+describe('Undo tree', () => {
+    let history: HistoryManager;
+    let document: TextDocument;
+    const state: CursorState = { cursorX: 0, cursorY: 0, selectionAnchor: null };
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        history = new HistoryManager(100);
+        document = new TextDocument('');
+        document.onEdit = edit => history.record(edit, state);
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    const append = (text: string) => {
+        const last = document.lineCount - 1;
+        document.insert({ x: document.getLineLength(last), y: last }, text);
+        history.checkpoint(state);
+    };
+
+    it('should keep undone steps as a branch when editing', () => {
+        append('a');
+        append('b');
+        history.undo(document);
+        append('c');
+        expect(document.getText()).toBe('ac');
+        expect(history.getBranches().map(branch => [branch.steps, branch.active])).toEqual([[2, false], [2, true]]);
+
+        history.switchBranch(document, 1);
+        expect(document.getText()).toBe('ab');
+        history.switchBranch(document, -1);
+        expect(document.getText()).toBe('ac');
+
+        // Redo follows the branch last visited
+        history.undo(document);
+        history.redo(document);
+        expect(document.getText()).toBe('ac');
+    });
+
+    it('should go back to the state from some time ago', () => {
+        append('a');
+        vi.advanceTimersByTime(60_000);
+        append('b');
+        vi.advanceTimersByTime(10_000);
+        append('c');
+
+        history.goBack(document, 30_000);
+        expect(document.getText()).toBe('a');
+        history.goBack(document, 120_000);
+        expect(document.getText()).toBe('');
+        expect(history.goBack(document, 120_000)).toBeNull();
+    });
+
+    it('should drop the oldest branches beyond the limit', () => {
+        history = new HistoryManager(3);
+        document.onEdit = edit => history.record(edit, state);
+        append('a');
+        history.undo(document);
+        append('b');
+        append('c');
+        append('d'); // Four steps: the 'a' branch goes
+        expect(history.getBranches()).toHaveLength(1);
+        while (history.undo(document)) { /* to the oldest state */ }
+        expect(document.getText()).toBe('');
+    });
+
+    it('should track the saved state through undo, redo and pruning', () => {
+        expect(history.isSaved).toBe(true);
+        append('a');
+        history.markSaved();
+        append('b');
+        expect(history.isSaved).toBe(false);
+        expect(history.getBranches()[0].saved).toBe(1);
+
+        history.undo(document);
+        expect(history.isSaved).toBe(true);
+        history.undo(document);
+        expect(history.isSaved).toBe(false);
+        history.redo(document);
+        expect(history.isSaved).toBe(true);
+
+        history.redo(document);
+        history.prune(1); // The saved step becomes the root
+        expect(history.savedEntry).not.toBeNull();
+        history.prune(0);
+        expect(history.savedEntry).toBeNull();
+        expect(history.isSaved).toBe(false);
+    });
+});
+
+describe('Undo tree in the editor', () => {
+    it('should switch branches and list them in the overlay', async () => {
+        const driver = new HeadlessEditor('', { rows: 8, columns: 80 });
+        driver.type('first');
+        driver.press('ctrl+z');
+        driver.type('second');
+
+        driver.press('alt+j');
+        expect(driver.editor.lines).toEqual(['first']);
+        expect(driver.editor.statusMessage).toBe('Undo branch 1 of 2');
+
+        driver.press('alt+u');
+        const screen = driver.text().split('\n');
+        expect(screen[0]).toContain('Undo Tree');
+        expect(screen[1]).toMatch(/\*1\. \d\d:\d\d:\d\d \(0 s ago\) {2}1 step {2}\+"first" \(current, saved -1\)/);
+        expect(screen[2]).toContain(' 2. ');
+        expect(screen[2]).toContain('+"second"');
+
+        driver.press('down', 'enter');
+        expect(driver.editor.mode).toBe('edit');
+        expect(driver.editor.lines).toEqual(['second']);
+        await driver.close();
+    });
+
+    it('should go back in time from the prompt', async () => {
+        const driver = new HeadlessEditor('', { rows: 8, columns: 80 });
+        driver.type('abc');
+        driver.press('alt+t');
+        driver.type('10s\n');
+        expect(driver.editor.lines).toEqual(['']); // Before the editor was opened
+        expect(driver.editor.statusMessage).toMatch(/^Went back to \d\d:\d\d:\d\d/);
+
+        driver.press('alt+t');
+        driver.type('10s\n');
+        expect(driver.editor.statusMessage).toBe('No changes in the last 10s');
+        driver.press('ctrl+y');
+        expect(driver.editor.lines).toEqual(['abc']);
+
+        driver.press('alt+t');
+        driver.type('soon\n');
+        expect(driver.editor.statusMessage).toContain('Invalid duration');
+        await driver.close();
+    });
+});
+
+describe('Save points in the editor', () => {
+    it('should clear the dirty flag when undoing back to the saved text', async () => {
+        const driver = new HeadlessEditor('draft', { rows: 8, columns: 80, onSave: () => {} });
+        driver.press('end').type('!');
+        expect(await driver.editor.saveFile()).toBe(true);
+
+        driver.type('?');
+        expect(driver.editor.isDirty).toBe(true);
+        driver.press('ctrl+z');
+        expect(driver.editor.lines).toEqual(['draft!']);
+        expect(driver.editor.isDirty).toBe(false);
+        expect(driver.text()).not.toContain('*');
+        driver.press('ctrl+z');
+        expect(driver.editor.isDirty).toBe(true);
+        driver.press('ctrl+y');
+        expect(driver.editor.isDirty).toBe(false);
+
+        driver.press('alt+u');
+        expect(driver.text()).toContain('+"?" (saved -1)');
+        driver.press('escape');
+
+        // Quits without asking
+        driver.press('ctrl+q');
+        await expect(driver.result).resolves.toMatchObject({ saved: true, content: 'draft!' });
+    });
+
+    it('should stay dirty after the line ending changed', async () => {
+        const driver = new HeadlessEditor('text', { rows: 8, columns: 80 });
+        driver.type('x');
+        driver.press('ctrl+z');
+        expect(driver.editor.isDirty).toBe(false);
+
+        driver.editor.toggleLineEnding();
+        driver.type('x');
+        driver.press('ctrl+z');
+        expect(driver.editor.isDirty).toBe(true);
+        await driver.close();
     });
 });
@@ -0,0 +1,59 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { detectIndentation } from '../src/indentation.js';
+import { HeadlessEditor } from '../src/headless.js';
+
+describe('detectIndentation', () => {
+    it('should detect the space width from indentation changes', () => {
+        const text = 'a:\n  b:\n    c: 1\n  d: 2\ne: 3\n';
+        expect(detectIndentation(text)).toEqual({ useTabs: false, size: 2 });
+        expect(detectIndentation('if (x) {\n    y();\n}\n')).toEqual({ useTabs: false, size: 4 });
+    });
+
+    it('should detect tabs and ignore block comment alignment', () => {
+        const text = '/**\n * doc\n */\nfunc main() {\n\tfmt.Println()\n\tif x {\n\t\treturn\n\t}\n}\n';
+        expect(detectIndentation(text)).toEqual({ useTabs: true, size: null });
+    });
+
+    it('should return null when nothing is indented', () => {
+        expect(detectIndentation('one\ntwo\n\n')).toBeNull();
+    });
+});
+
+describe('Editor indentation', () => {
+    let driver: HeadlessEditor;
+
+    afterEach(async () => {
+        await driver?.close();
+    });
+
+    it('should indent in the style of the file', async () => {
+        driver = new HeadlessEditor('a:\n  b: 1\n', { rows: 5, columns: 60 });
+        expect(driver.text()).toContain('Spaces: 2');
+
+        driver.press('tab');
+        expect(driver.editor.lines[0]).toBe('  a:');
+        await driver.close();
+
+        driver = new HeadlessEditor('f() {\n\tx\n}', { rows: 5, columns: 60 });
+        expect(driver.text()).toContain('Tabs: 4');
+        driver.press('end', 'enter');
+        expect(driver.editor.lines.slice(0, 2)).toEqual(['f() {', '\t']);
+    });
+
+    it('should let explicit options override the detected style', async () => {
+        driver = new HeadlessEditor('f() {\n\tx\n}', { rows: 5, columns: 60, useTabs: false, tabSize: 3 });
+        driver.press('tab');
+        expect(driver.editor.lines[0]).toBe('   f() {');
+        await driver.close();
+
+        driver = new HeadlessEditor('a:\n  b: 1\n', { rows: 5, columns: 60, detectIndentation: false });
+        expect(driver.editor.tabSize).toBe(4);
+    });
+
+    it('should move a closing bracket to its own line', () => {
+        driver = new HeadlessEditor('', { rows: 6, columns: 60, tabSize: 2 });
+        driver.type('x = {').press('enter');
+        expect(driver.editor.lines).toEqual(['x = {', '  ', '}']);
+        expect(driver.editor.cursorX).toBe(2);
+    });
+});
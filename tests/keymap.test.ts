@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { buildHelpLine, createKeymap, describeKey, normalizeKeySpec } from '../src/keymap';
+
+describe('keymap', () => {
+    it('should normalize human key specs', () => {
+        expect(normalizeKeySpec('Ctrl+S')).toBe('ctrl+s');
+        expect(normalizeKeySpec('Meta+Up')).toBe('alt+up');
+        expect(normalizeKeySpec('shift+alt+Left')).toBe('alt+shift+left');
+        expect(normalizeKeySpec('Return')).toBe('enter');
+        expect(normalizeKeySpec('ctrl++')).toBe('ctrl++');
+        expect(() => normalizeKeySpec('hyper+x')).toThrow('Unknown modifier');
+    });
+
+    it('should describe keypress events', () => {
+        expect(describeKey('a', { name: 'a', ctrl: false, meta: false, shift: false, sequence: 'a' })).toBe('a');
+        expect(describeKey('A', { name: 'a', ctrl: false, meta: false, shift: true, sequence: 'A' })).toBe('A');
+        expect(describeKey('\x13', { name: 's', ctrl: true, meta: false, shift: false, sequence: '\x13' })).toBe('ctrl+s');
+        expect(describeKey(undefined as any, { name: 'up', ctrl: false, meta: true, shift: false, sequence: '\x1b[1;3A' })).toBe('alt+up');
+        expect(describeKey(undefined as any, { name: 'tab', ctrl: false, meta: false, shift: true, sequence: '\x1b[Z' })).toBe('shift+tab');
+        expect(describeKey('\r', { name: 'return', ctrl: false, meta: false, shift: false, sequence: '\r' })).toBe('enter');
+        expect(describeKey('é', { name: 'é', ctrl: false, meta: false, shift: false, sequence: 'é' })).toBe('é');
+        expect(describeKey('日本語', { name: '日本語', ctrl: false, meta: false, shift: false, sequence: '日本語' })).toBe('日本語');
+    });
+
+    it('should override, extend and unbind defaults', () => {
+        const keymap = createKeymap({ 'Ctrl+Z': null, 'Alt+Z': 'undo', 'ctrl+s': 'quit' });
+
+        expect(keymap.has('ctrl+z')).toBe(false);
+        expect(keymap.get('alt+z')).toBe('undo');
+        expect(keymap.get('ctrl+s')).toBe('quit');
+        expect(keymap.get('ctrl+y')).toBe('redo');
+    });
+
+    it('should reject unknown commands', () => {
+        expect(() => createKeymap({ 'ctrl+o': 'openSesame' as any })).toThrow('Unknown editor command');
+    });
+
+    it('should generate the help line from active bindings', () => {
+        expect(buildHelpLine(createKeymap())).toBe(
+            'HELP: Ctrl+S = Save & Quit | Ctrl+O = Save | Ctrl+Q = Quit | Ctrl+W = Find | Ctrl+R = Replace | Ctrl+L = Go to Line'
+        );
+        expect(buildHelpLine(createKeymap({ 'ctrl+w': null, 'ctrl+f': 'find' }))).toContain('Ctrl+F = Find');
+    });
+});
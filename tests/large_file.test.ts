@@ -0,0 +1,132 @@
+import { describe, it, expect, afterEach, beforeEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LargeFileDocument } from '../src/large_file.js';
+import { HeadlessEditor } from '../src/headless.js';
+
+// About 2.4 MB: indexed in three blocks
+const LINE_COUNT = 30000;
+const makeLine = (i: number) => `line ${i} `.padEnd(79, 'x');
+
+describe('LargeFileDocument', () => {
+    let dir: string;
+    let file: string;
+    let document: LargeFileDocument | null = null;
+
+    beforeEach(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'cliedit-large-'));
+        file = path.join(dir, 'big.log');
+        const lines = Array.from({ length: LINE_COUNT }, (_, i) => makeLine(i));
+        await fs.writeFile(file, lines.join('\n') + '\n');
+    });
+
+    afterEach(async () => {
+        document?.close();
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('should index line starts block by block', async () => {
+        document = (await LargeFileDocument.open(file))!;
+        expect(document.lineCount).toBe(1);
+
+        const progress: number[] = [];
+        await document.buildIndex(() => progress.push(document!.progress));
+        expect(progress.length).toBeGreaterThan(2);
+        expect(progress[0]).toBeLessThan(1);
+        expect(document.indexed).toBe(true);
+        expect(document.lineCount).toBe(LINE_COUNT + 1); // Trailing newline
+        expect(document.getLine(12345)).toBe(makeLine(12345));
+        expect(document.getLine(LINE_COUNT)).toBe('');
+        expect(document.getLines(1, 3)).toEqual([makeLine(1), makeLine(2)]);
+    });
+
+    it('should be read-only', async () => {
+        document = (await LargeFileDocument.open(file))!;
+        expect(() => document!.insert({ x: 0, y: 0 }, 'a')).toThrow('read-only');
+        expect(() => document!.deleteLines(0, 1)).toThrow('read-only');
+    });
+
+    it('should find matches after a position and wrap around', async () => {
+        document = (await LargeFileDocument.open(file))!;
+        await document.buildIndex();
+
+        expect(await document.find('line 20000 ', { x: 0, y: 100 })).toEqual({ y: 20000, x: 0 });
+        expect(await document.find('line 100 ', { x: 0, y: 200 })).toEqual({ y: 100, x: 0 });
+        expect(await document.find('missing', { x: 0, y: 0 })).toBeNull();
+    });
+
+    it('should map matches to character columns in CRLF and multi-byte lines', async () => {
+        await fs.writeFile(file, 'héllo wörld\r\nfoo ünïcode bar\r\n');
+        document = (await LargeFileDocument.open(file))!;
+        await document.buildIndex();
+
+        expect(document.getLine(0)).toBe('héllo wörld');
+        expect(await document.find('bar', { x: 0, y: 0 })).toEqual({ y: 1, x: 12 });
+    });
+});
+
+describe('Large files in the editor', () => {
+    let driver: HeadlessEditor;
+    let dir: string;
+    let file: string;
+
+    beforeEach(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'cliedit-large-'));
+        file = path.join(dir, 'big.log');
+        const lines = Array.from({ length: LINE_COUNT }, (_, i) => makeLine(i));
+        await fs.writeFile(file, lines.join('\n') + '\n');
+    });
+
+    afterEach(async () => {
+        await driver?.close();
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('should open files above the threshold read-only and unwrapped', async () => {
+        driver = new HeadlessEditor('', { rows: 10, columns: 40, largeFileThreshold: 1024 });
+        await driver.editor.openBuffer(file);
+        expect(driver.editor.isLargeFile()).toBe(true);
+        await vi.waitFor(() => expect(driver.editor.document.lineCount).toBe(LINE_COUNT + 1));
+
+        const screen = driver.text().split('\n');
+        expect(screen[0]).toMatch(/1 \| ?line 0 x+/);
+        expect(screen[1]).toMatch(/2 \| ?line 1 x+/); // The rest of line 0 isn't wrapped
+
+        driver.type('abc');
+        expect(driver.editor.document.getLine(0)).toBe(makeLine(0));
+        expect(driver.editor.statusMessage).toBe('Buffer is read-only');
+
+        driver.press('ctrl+l');
+        driver.type('30000\n');
+        expect(driver.editor.cursorY).toBe(LINE_COUNT - 1);
+        expect(driver.text().split('\n')[4]).toMatch(/30000 \| ?line 29999 x+/);
+    });
+
+    it('should flag large files in the result', async () => {
+        driver = new HeadlessEditor('notes', { rows: 10, columns: 40, largeFileThreshold: 1024 });
+        await driver.editor.openBuffer(file);
+
+        expect(await driver.close()).toEqual({
+            saved: false,
+            content: '',
+            largeFile: true,
+            files: [
+                { filepath: '', saved: false, content: 'notes' },
+                { filepath: file, saved: false, content: '', largeFile: true },
+            ],
+        });
+    });
+
+    it('should search the file with Find', async () => {
+        driver = new HeadlessEditor('', { rows: 10, columns: 40, largeFileThreshold: 1024 });
+        await driver.editor.openBuffer(file);
+        await vi.waitFor(() => expect(driver.editor.document.lineCount).toBe(LINE_COUNT + 1));
+
+        driver.press('ctrl+w');
+        driver.type('line 25000 ');
+        driver.press('enter');
+        await vi.waitFor(() => expect(driver.editor.cursorY).toBe(25000));
+        expect(driver.editor.searchResultMap.get(25000)).toEqual([{ start: 0, end: 11 }]);
+    });
+});
@@ -44,4 +44,58 @@ describe('ScreenBuffer', () => {
         const output = stdoutSpy.mock.calls.join('');
         expect(output).toContain('B');
     });
+
+    it('should write to a custom output stream', () => {
+        const chunks: string[] = [];
+        const output = { write: (chunk: string) => { chunks.push(chunk); return true; } };
+        const custom = new ScreenBuffer(output as unknown as NodeJS.WritableStream);
+        stdoutSpy.mockClear();
+
+        custom.resize(1, 3);
+        custom.putString(0, 0, 'abc');
+        custom.flush();
+
+        expect(chunks.join('')).toContain('abc');
+        expect(stdoutSpy).not.toHaveBeenCalled();
+    });
+
+    it('should draw a region at its origin without clearing the screen', () => {
+        const chunks: string[] = [];
+        const output = { write: (chunk: string) => { chunks.push(chunk); return true; } };
+        const region = new ScreenBuffer(output as unknown as NodeJS.WritableStream);
+
+        region.resize(2, 4, { top: 5, left: 10 });
+        region.putString(0, 1, 'ab');
+        region.flush();
+
+        const written = chunks.join('');
+        expect(written).not.toContain('\x1b[2J');
+        expect(written).toContain('\x1b[7;11Hab');
+        expect(region.cursorTo(3, 0)).toBe('\x1b[6;14H');
+    });
+});
+
+describe('ScreenBuffer wide characters', () => {
+    it('should give wide characters two cells and skip the continuation cell', () => {
+        const chunks: string[] = [];
+        const output = { write: (chunk: string) => { chunks.push(chunk); return true; } };
+        const buffer = new ScreenBuffer(output as unknown as NodeJS.WritableStream);
+
+        buffer.resize(1, 6);
+        expect(buffer.putString(0, 0, '漢a😀')).toBe(5);
+        buffer.flush();
+
+        expect(buffer.snapshot().lines[0]).toBe('漢a😀 ');
+        expect(chunks.join('')).toContain('漢a😀');
+    });
+
+    it('should clear the other half when a wide character is overwritten', () => {
+        const buffer = new ScreenBuffer({ write: () => true } as unknown as NodeJS.WritableStream);
+        buffer.resize(1, 4);
+        buffer.putString(0, 0, '漢字');
+        buffer.put(1, 0, 'x', '');
+        buffer.flush();
+
+        expect(buffer.snapshot().lines[0]).toBe(' x字');
+    });
 });
@@ -1,6 +1,8 @@
 
+import { EventEmitter } from 'events';
 import { CliEditor } from '../src/editor.js';
 import { ScreenBuffer } from '../src/screen_buffer.js';
+import { LineMeasure, TextDocument } from '../src/document.js';
 
 export class MockScreenBuffer {
     resize(rows: number, cols: number) {}
@@ -10,8 +12,8 @@ export class MockScreenBuffer {
     flush() {}
 }
 
-export class MockEditor {
-    lines: string[] = [''];
+export class MockEditor extends EventEmitter {
+    document: TextDocument = new TextDocument();
     cursorX: number = 0;
     cursorY: number = 0;
     selectionAnchor: { x: number, y: number } | null = null;
@@ -20,22 +22,40 @@ export class MockEditor {
     screenCols: number = 80;
     gutterWidth: number = 5;
     tabSize: number = 4;
+    indentSize: number = 4;
+    useTabs: boolean = false;
     screenStartRow: number = 1;
+    screenStartCol: number = 1;
+    textArea = { top: 0, left: 0, rows: 20, cols: 80 };
     isDirty: boolean = false;
+    readOnly: boolean = false;
+    buffers: unknown[] = [];
+    activeBufferIndex: number = 0;
     screenBuffer: ScreenBuffer;
     searchResultMap: Map<number, Array<{ start: number; end: number }>> = new Map();
-    history: any = { saveState: () => {}, undo: () => null, redo: () => null }; // Minimal history mock
+    rowMeasures: Map<string, LineMeasure> = new Map();
+    history: any = { checkpoint: () => {}, undo: () => null, redo: () => null, clear: () => {} }; // Minimal history mock
     mode: string = 'edit';
     goToLineQuery: string = '';
     statusMessage: string = '';
     DEFAULT_STATUS: string = '';
+    lastCursorKey: string = '';
+    lastEmittedMode: string = 'edit';
 
     constructor() {
+        super();
         this.screenBuffer = new MockScreenBuffer() as unknown as ScreenBuffer;
     }
 
+    get lines(): string[] { return this.document.getLines(); }
+    set lines(lines: string[]) { this.document = TextDocument.fromLines(lines); }
+
     // Stubs
     setDirty() { this.isDirty = true; }
+    guardReadOnly() { return this.readOnly; }
+    isLargeFile() { return false; }
+    emitContentChange() {}
+    emitStateEvents() {}
     saveState() {}
     render() {}
     scroll() {} 
@@ -0,0 +1,114 @@
+import { describe, it, expect, afterEach, beforeEach } from 'vitest';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { HistoryManager } from '../src/history.js';
+import { TextDocument } from '../src/document.js';
+import { getUndoPath, hashText, readUndoFile, writeUndoFile } from '../src/undo_file.js';
+import { HeadlessEditor } from '../src/headless.js';
+
+describe('Undo files', () => {
+    let dir: string;
+    let file: string;
+    let history: HistoryManager;
+    let document: TextDocument;
+
+    beforeEach(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'cliedit-undo-'));
+        file = path.join(dir, 'notes.txt');
+        history = new HistoryManager(100);
+        document = new TextDocument('');
+        document.onEdit = edit => history.record(edit, { cursorX: 0, cursorY: 0, selectionAnchor: null });
+        for (let i = 0; i < 20; i++) {
+            document.insert({ x: 0, y: i }, `line ${i}\n`);
+            history.checkpoint({ cursorX: 0, cursorY: i + 1, selectionAnchor: null });
+        }
+    });
+
+    afterEach(async () => {
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('should restore the history only for the saved content', async () => {
+        const text = document.getText();
+        await writeUndoFile(file, history, text);
+        expect(getUndoPath(file)).toBe(path.join(dir, '.notes.txt.undo'));
+
+        const data = await readUndoFile(file, text.replace(/\n/g, '\r\n'));
+        expect(data).not.toBeNull();
+        const restored = new HistoryManager(100);
+        restored.load(data!);
+        restored.undo(document);
+        expect(document.lineCount).toBe(20);
+
+        expect(await readUndoFile(file, text + 'changed')).toBeNull();
+        expect(await readUndoFile(path.join(dir, 'other.txt'), text)).toBeNull();
+    });
+
+    it('should leave out the oldest steps to stay below the size limit', async () => {
+        await writeUndoFile(file, history, document.getText(), 2000);
+        const size = (await fs.stat(getUndoPath(file))).size;
+        expect(size).toBeLessThanOrEqual(2000);
+
+        const data = await readUndoFile(file, document.getText());
+        expect(data!.entries.length - 1).toBeLessThan(20);
+
+        await writeUndoFile(file, history, document.getText(), 10);
+        await expect(fs.access(getUndoPath(file))).rejects.toThrow();
+    });
+
+    it('should undo past the last session after reopening the file', async () => {
+        await fs.writeFile(file, 'hello');
+        let driver = new HeadlessEditor('', { undoFile: true });
+        await driver.editor.openBuffer(file);
+        driver.press('end').type('!');
+        expect(await driver.editor.saveFile()).toBe(true);
+        await driver.close();
+
+        driver = new HeadlessEditor('', { undoFile: true });
+        await driver.editor.openBuffer(file);
+        expect(driver.editor.lines).toEqual(['hello!']);
+        driver.press('ctrl+z');
+        expect(driver.editor.lines).toEqual(['hello']);
+        await driver.close();
+
+        // Changed outside the editor: the old history no longer applies
+        await fs.writeFile(file, 'other');
+        driver = new HeadlessEditor('', { undoFile: true });
+        await driver.editor.openBuffer(file);
+        driver.press('ctrl+z');
+        expect(driver.editor.lines).toEqual(['other']);
+        await driver.close();
+    });
+
+    it('should drop undo files that match the hash but not the text', async () => {
+        await fs.writeFile(file, 'hello');
+        const state = { cursorX: 0, cursorY: 0, selectionAnchor: null };
+        const step = (edits: unknown[]) => ({ id: 1, parent: 0, redoChild: null, edits, before: state, after: state, time: 0 });
+        const root = { id: 0, parent: null, redoChild: 1, edits: [], before: state, after: state, time: 0 };
+        const write = (entries: unknown[]) => fs.writeFile(getUndoPath(file), JSON.stringify({
+            version: 1, hash: hashText('hello'), history: { current: 1, nextId: 2, entries },
+        }));
+
+        // An insert that isn't in the text, one past the last line, and a broken tree
+        for (const entries of [
+            [root, step([{ type: 'insert', at: { x: 0, y: 0 }, text: 'bye' }])],
+            [root, step([{ type: 'insert', at: { x: 0, y: 5 }, text: 'hello' }])],
+            [root, { ...step([]), parent: 7 }],
+        ]) {
+            await write(entries);
+            const driver = new HeadlessEditor('', { undoFile: true });
+            await driver.editor.openBuffer(file);
+            expect(driver.editor.lines).toEqual(['hello']);
+            driver.press('ctrl+z');
+            expect(driver.editor.statusMessage).toBe('Already at oldest change');
+            await driver.close();
+            await expect(fs.access(getUndoPath(file))).rejects.toThrow();
+        }
+
+        // Malformed data passed to a history directly leaves it untouched
+        const history = new HistoryManager(100);
+        expect(() => history.load({ current: 1, nextId: 2, entries: [root, step([{ type: 'insert', at: { x: 0, y: 0 }, text: 'bye' }])] } as never, new TextDocument('hello'))).toThrow();
+        expect(history.currentEntry.id).toBe(0);
+    });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { PassThrough } from 'stream';
+import keypress, { KeypressEvent } from '../src/vendor/keypress.js';
+import { HeadlessEditor } from '../src/headless.js';
+import { stringWidth, wrapLine } from '../src/unicode.js';
+
+describe('Display width', () => {
+    it('should measure wide characters, emoji and combining marks', () => {
+        expect(stringWidth('abc')).toBe(3);
+        expect(stringWidth('漢字')).toBe(4);
+        expect(stringWidth('👍🏽')).toBe(2);
+        expect(stringWidth('é')).toBe(1);
+        expect(stringWidth('👨‍👩‍👧')).toBe(2);
+    });
+
+    it('should wrap without splitting wide characters', () => {
+        expect(wrapLine('abcdef', 4)).toEqual([0, 4]);
+        // 'a' + two wide characters = 5 cells; the second one moves to the next row
+        expect(wrapLine('a漢字', 4)).toEqual([0, 2]);
+    });
+});
+
+describe('Editor with wide characters', () => {
+    let driver: HeadlessEditor;
+
+    afterEach(async () => {
+        await driver?.close();
+    });
+
+    it('should place the cursor by display column', () => {
+        driver = new HeadlessEditor('漢字x', { rows: 4, columns: 30 });
+        driver.press('right');
+        expect(driver.editor.cursorX).toBe(1);
+        expect(driver.screen().cursor).toEqual({ row: 0, col: 7 });
+        expect(driver.text().split('\n')[0]).toMatch(/^ {2}1 \|漢字x/);
+    });
+
+    it('should move and delete over an emoji as one character', () => {
+        driver = new HeadlessEditor('a👍🏽b', { rows: 4, columns: 30 });
+        driver.press('right', 'right');
+        expect(driver.editor.cursorX).toBe(5);
+        expect(driver.screen().cursor).toEqual({ row: 0, col: 8 });
+
+        driver.press('backspace');
+        expect(driver.editor.lines).toEqual(['ab']);
+        expect(driver.editor.cursorX).toBe(1);
+    });
+
+    it('should keep the visual column when moving between wrapped rows', () => {
+        driver = new HeadlessEditor('ab\n漢字', { rows: 4, columns: 30 });
+        driver.press('end', 'down');
+        // Column 2 is the boundary after the first wide character
+        expect(driver.editor.cursorY).toBe(1);
+        expect(driver.editor.cursorX).toBe(1);
+    });
+});
+
+describe('Non-ASCII input', () => {
+    let driver: HeadlessEditor;
+
+    afterEach(async () => {
+        await driver?.close();
+    });
+
+    it('should emit accented letters, emoji and IME chunks as single keypresses', () => {
+        const stream = new PassThrough() as unknown as NodeJS.ReadStream;
+        const received: Array<[string | undefined, string | undefined]> = [];
+        keypress(stream);
+        stream.on('keypress', (ch: string | undefined, key: KeypressEvent) => received.push([ch, key.name]));
+
+        stream.write(Buffer.from('é'));
+        stream.write(Buffer.from('😀'));
+        stream.write(Buffer.from('日本語'));
+        stream.write(Buffer.from('ü\r'));
+
+        expect(received).toEqual([['é', 'é'], ['😀', '😀'], ['日本語', '日本語'], ['ü', 'ü'], ['\r', 'return']]);
+    });
+
+    it('should insert typed non-ASCII text', () => {
+        driver = new HeadlessEditor('', { rows: 4, columns: 30 });
+        driver.type('Ñandú ').press('日本語');
+
+        expect(driver.editor.lines).toEqual(['Ñandú 日本語']);
+        expect(driver.editor.cursorX).toBe(9);
+    });
+
+    it('should accept non-ASCII text in the find prompt', () => {
+        driver = new HeadlessEditor('abc\nüber 😀', { rows: 4, columns: 30 });
+        driver.press('ctrl+w').type('😀x').press('backspace');
+        expect(driver.editor.searchQuery).toBe('😀');
+
+        driver.press('enter');
+        expect(driver.editor.cursorY).toBe(1);
+        expect(driver.editor.cursorX).toBe(5);
+    });
+});
+
+describe('Hard tabs', () => {
+    let driver: HeadlessEditor;
+
+    afterEach(async () => {
+        await driver?.close();
+    });
+
+    it('should expand tabs to the next tab stop', () => {
+        expect(stringWidth('a\tb', 4)).toBe(5);
+        expect(stringWidth('\t\t', 8)).toBe(16);
+        // A tab is cut off at the end of the row instead of wrapping
+        expect(wrapLine('abc\tde', 5, 8)).toEqual([0, 4]);
+    });
+
+    it('should render tabs and place the cursor by visual column', () => {
+        driver = new HeadlessEditor('a\tb\n\tx', { rows: 5, columns: 40, tabSize: 4 });
+        const lines = driver.text().split('\n');
+        expect(lines[0]).toMatch(/^ {2}1 \|a {3}b/);
+        expect(lines[1]).toMatch(/^ {2}2 \| {4}x/);
+
+        driver.press('right', 'right');
+        expect(driver.screen().cursor).toEqual({ row: 0, col: 9 });
+        expect(driver.text()).toContain('Ln 1, Col 5');
+
+        // Moving down keeps the visual column: just after the tab of line 2
+        driver.press('down');
+        expect(driver.editor.cursorX).toBe(1);
+    });
+
+    it('should insert and remove real tabs with useTabs', () => {
+        driver = new HeadlessEditor('x', { rows: 5, columns: 40, useTabs: true });
+        driver.press('tab');
+        expect(driver.editor.lines).toEqual(['\tx']);
+
+        driver.press('shift+tab');
+        expect(driver.editor.lines).toEqual(['x']);
+    });
+});